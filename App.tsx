@@ -1,113 +1,577 @@
-import React, { useState, useCallback } from 'react';
-import { UploadCloud, ImagePlus, AlertCircle, Camera } from 'lucide-react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { UploadCloud, AlertCircle, Camera, History, Settings, CheckCircle2, FolderOpen, Link, Loader2 } from 'lucide-react';
 import { Editor } from './components/Editor';
 import { CompareSlider } from './components/CompareSlider';
-import { Annotation } from './types';
-import { downscaleImageIfNeeded, flattenAnnotations } from './utils/canvas';
-import { geminiService } from './services/gemini';
-import { DEFAULT_INSTRUCTION_TEMPLATE, CLEAN_UP_INSTRUCTION } from './constants';
+import { BatchPanel } from './components/BatchPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { VersionChain } from './components/VersionChain';
+import { SettingsPanel } from './components/SettingsPanel';
+import { LibraryPanel } from './components/LibraryPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { WebcamCapture } from './components/WebcamCapture';
+import { ImageQueue } from './components/ImageQueue';
+import { PromptPreview } from './components/PromptPreview';
+import { ResponsePanel } from './components/ResponsePanel';
+import { VariationGrid } from './components/VariationGrid';
+import { Annotation, AnnotationColor, HistoryItem, EditVersion, AppSettings, ResidueReport, ImageEditResult, EditCommandKind, EditHistory, PromptLibrary, ReferenceImage } from './types';
+import { downscaleDataUrlIfNeeded, createThumbnail, getImageSize } from './utils/canvas';
+import { downloadDataUrl, downloadBlob } from './utils/download';
+import { detectResidue } from './utils/residue';
+import { getTransferImages, getUrlFileName, importImageFromUrl, isImageUrl, isTextField, looksLikeImageLink } from './utils/sources';
+import { ingestImage, ingestDataUrl, isImageFile, IngestedImage, ImageIngestError, IMAGE_ACCEPT } from './utils/ingest';
+import { buildEditInstruction, getEnabledAnnotations, ImageSize } from './utils/prompt';
+import { EMPTY_HISTORY, createAnnotationCommand, createGenerationCommand, pushCommand, travel } from './utils/commands';
+import { getProvider } from './services/providers';
+import { runEdit, runTiledEdit } from './services/pipeline';
+import { CancelledError, getErrorMessage } from './services/errors';
+import { exportProject, importProject, PROJECT_EXTENSION } from './services/project';
+import { loadSettings, saveSettings } from './services/settings';
+import { loadLibrary, saveLibrary, getActiveTemplate } from './services/library';
+import { historyStore } from './services/historyStore';
+
+const DEFAULT_SOURCE = { name: 'nanobanana', originalSize: null };
+
+// What a generated image was made from, for its export metadata and the
+// annotated render
+interface ResultSource {
+  prompt: string;
+  annotations: Annotation[];
+}
 
 const App: React.FC = () => {
-  const [stage, setStage] = useState<'upload' | 'edit' | 'result'>('upload');
+  const [stage, setStage] = useState<'upload' | 'edit' | 'result' | 'batch' | 'variations'>('upload');
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  // Undo history of the active version; outlives the editor across stages
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_HISTORY);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  // The full model response behind the current result, when it came from
+  // a generation in this session
+  const [response, setResponse] = useState<ImageEditResult | null>(null);
+  const [starredVariations, setStarredVariations] = useState<number[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [residue, setResidue] = useState<ResidueReport | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
+  // A hand-edited prompt, valid only while the automatic prompt it was
+  // derived from is unchanged
+  const [promptOverride, setPromptOverride] = useState<{ prompt: string; basedOn: string } | null>(null);
+  const [isPromptOpen, setIsPromptOpen] = useState(false);
+  // Reference images for the whole request; annotations carry their own
+  const [references, setReferences] = useState<ReferenceImage[]>([]);
+  // Keyed by generated image, so undo, redo and picking a candidate keep
+  // the right one. Results from history or projects have none.
+  const [resultSources, setResultSources] = useState<Map<string, ResultSource>>(new Map());
+  const abortRef = useRef<AbortController | null>(null);
+  const [versions, setVersions] = useState<EditVersion[]>([]);
+  const [activeVersion, setActiveVersion] = useState(0);
+  const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Color meanings from an opened project; they apply to that session only
+  // and never overwrite the saved ones
+  const [sessionColorMeanings, setSessionColorMeanings] = useState<AppSettings['colorMeanings'] | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  const [library, setLibrary] = useState<PromptLibrary>(loadLibrary);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // Where the session's image came from, for export names and upscaling
+  const [source, setSource] = useState<{ name: string; originalSize: ImageSize | null }>(DEFAULT_SOURCE);
+  // Further dropped or picked images, opened one after another
+  const [queue, setQueue] = useState<File[]>([]);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [imageUrl, setImageUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+
+  const provider = getProvider(settings.provider);
+  // What requests in this session are made with
+  const requestSettings = useMemo(
+    () => sessionColorMeanings ? { ...settings, colorMeanings: sessionColorMeanings } : settings,
+    [settings, sessionColorMeanings]
+  );
+  const instructionTemplate = getActiveTemplate(library, 'edit');
+  const cleanupTemplate = getActiveTemplate(library, 'cleanup');
+
+  const updateSettings = (next: AppSettings) => {
+    // Editing the meanings by hand takes over from the project's
+    if (next.colorMeanings !== settings.colorMeanings) setSessionColorMeanings(null);
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const updateLibrary = (next: PromptLibrary) => {
+    setLibrary(next);
+    saveLibrary(next);
+  };
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setHistoryItems(await historyStore.list());
+    } catch (e) {
+      console.error("Failed to load history:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  const recordHistory = async (originalImage: string, resultImage: string, usedAnnotations: Annotation[]) => {
+    try {
+      const item: HistoryItem = {
+        id: Math.random().toString(36).substr(2, 9),
+        thumbnail: await createThumbnail(resultImage),
+        originalImage,
+        generatedImage: resultImage,
+        annotations: usedAnnotations,
+        timestamp: Date.now(),
+      };
+      await historyStore.add(item);
+      await refreshHistory();
+    } catch (e) {
+      // History is best-effort; never block the result on it
+      console.error("Failed to save history:", e);
+    }
+  };
+
+  // Resets the edit chain so that the given image becomes v1
+  const startSession = (
+    baseImage: string,
+    initialAnnotations: Annotation[] = [],
+    result: string | null = null,
+    fullImage?: string
+  ) => {
+    setVersions([{ id: Math.random().toString(36).substr(2, 9), baseImage, fullImage, annotations: initialAnnotations, generatedImage: result }]);
+    setActiveVersion(0);
+    setImageSrc(baseImage);
+    setAnnotations(initialAnnotations);
+    setEditHistory(EMPTY_HISTORY);
+    setGeneratedImage(result);
+    setResponse(null);
+    setReferences([]);
+    setResultSources(new Map());
+    setSessionColorMeanings(null);
+    setSource(DEFAULT_SOURCE);
+  };
+
+  // Writes the working state back into the active step of the chain
+  const snapshotVersions = (): EditVersion[] =>
+    versions.map((v, i) => i === activeVersion ? { ...v, annotations, generatedImage, history: editHistory } : v);
+
+  const selectVersion = (index: number) => {
+    if (index < 0 || index >= versions.length || index === activeVersion) return;
+    const next = snapshotVersions();
+    const target = next[index];
+    setVersions(next);
+    setActiveVersion(index);
+    setImageSrc(target.baseImage);
+    setAnnotations(target.annotations);
+    setEditHistory(target.history ?? EMPTY_HISTORY);
+    setGeneratedImage(target.generatedImage);
+    setResponse(null);
+    setStage(stage === 'result' && target.generatedImage ? 'result' : 'edit');
+  };
+
+  const continueFromResult = async () => {
+    if (!generatedImage) return;
+    // A crop-and-stitch result is full size; annotate a downscaled copy
+    let baseImage = generatedImage;
+    try {
+      baseImage = await downscaleDataUrlIfNeeded(generatedImage);
+    } catch (e) {
+      console.error("Failed to downscale result:", e);
+    }
+    // Continuing from an earlier step drops the steps that came after it
+    const next: EditVersion[] = [
+      ...snapshotVersions().slice(0, activeVersion + 1),
+      {
+        id: Math.random().toString(36).substr(2, 9),
+        baseImage,
+        fullImage: baseImage !== generatedImage ? generatedImage : undefined,
+        annotations: [],
+        generatedImage: null,
+      },
+    ];
+    setVersions(next);
+    setActiveVersion(next.length - 1);
+    setImageSrc(baseImage);
+    setAnnotations([]);
+    setEditHistory(EMPTY_HISTORY);
+    setGeneratedImage(null);
+    setResponse(null);
+    setStage('edit');
+  };
+
+  const editAnnotations = (kind: EditCommandKind, next: Annotation[]) => {
+    const command = createAnnotationCommand(kind, annotations, next);
+    if (!command) return;
+    setEditHistory(prev => pushCommand(prev, command));
+    setAnnotations(next);
+  };
+
+  const setResult = (image: string | null) => {
+    setGeneratedImage(image);
+    setVersions(prev => prev.map((v, i) => i === activeVersion ? { ...v, generatedImage: image } : v));
+  };
+
+  // Undo/redo to the point where `target` commands are applied
+  const travelHistory = (target: number) => {
+    const { history, doc } = travel(editHistory, { annotations, generatedImage }, target);
+    setEditHistory(history);
+    setAnnotations(doc.annotations);
+    if (doc.generatedImage !== generatedImage) {
+      // Undoing a generation brings back the previous result, and shows it
+      setResult(doc.generatedImage);
+      setResponse(null);
+      setStage(doc.generatedImage ? 'result' : 'edit');
+    }
+  };
+
+  const saveProject = () => {
+    if (versions.length === 0) return;
+    try {
+      const blob = exportProject({
+        colorMeanings: requestSettings.colorMeanings,
+        promptOverride,
+        references,
+        activeVersion,
+        versions: snapshotVersions(),
+      });
+      downloadBlob(blob, `nanobanana-project${PROJECT_EXTENSION}`);
+    } catch (e: any) {
+      setError(e.message || "Failed to save project.");
+    }
+  };
+
+  const openProject = async (file: File) => {
+    setError(null);
+    try {
+      const project = await importProject(file);
+      const active = project.versions[project.activeVersion];
+      setVersions(project.versions);
+      setActiveVersion(project.activeVersion);
+      setImageSrc(active.baseImage);
+      setAnnotations(active.annotations);
+      setEditHistory(EMPTY_HISTORY);
+      setGeneratedImage(active.generatedImage);
+      setResponse(null);
+      setPromptOverride(project.promptOverride);
+      setReferences(project.references);
+      setResultSources(new Map());
+      setSource({ ...DEFAULT_SOURCE, name: file.name.replace(/\.[^.]+$/, '') });
+      setSessionColorMeanings(project.colorMeanings);
+      setStage('edit');
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Failed to open project.");
+    }
+  };
+
+  const isProjectFile = (file: File) =>
+    file.name.toLowerCase().endsWith(PROJECT_EXTENSION) || file.type === 'application/zip' || file.type === 'application/json';
+
+  // Starts a session on an image from any source
+  const openImage = ({ fullImage, working, originalSize }: IngestedImage, name: string) => {
+    // The full-resolution image is kept for crop-and-stitch edits, its
+    // size so exports can be scaled back up
+    startSession(working, [], null, fullImage !== working ? fullImage : undefined);
+    setSource({ name, originalSize });
+    setStage('edit');
+  };
 
   const handleFile = async (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    if (isProjectFile(file)) {
+      openProject(file);
+      return;
+    }
+    if (!isImageFile(file)) {
       setError("Please upload a valid image file.");
       return;
     }
     setError(null);
     try {
-      const processedSrc = await downscaleImageIfNeeded(file);
-      setImageSrc(processedSrc);
-      setAnnotations([]);
-      setStage('edit');
-    } catch (e) {
-      setError("Failed to process image. Please try again.");
+      openImage(await ingestImage(file), file.name.replace(/\.[^.]+$/, ''));
+    } catch (e: any) {
+      console.error(e);
+      setError(e instanceof ImageIngestError ? e.message : "Failed to process image. Please try again.");
+    }
+  };
+
+  // Opens the first file and queues the other images
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    const [first, ...rest] = files;
+    const images = rest.filter(isImageFile);
+    setQueue(images);
+    if (images.length < rest.length) {
+      setNotice(`Skipped ${rest.length - images.length} ${rest.length - images.length === 1 ? 'file that is' : 'files that are'} not images.`);
+    }
+    handleFile(first);
+  };
+
+  const openNextInQueue = () => {
+    const [next, ...rest] = queue;
+    if (!next) return;
+    setQueue(rest);
+    handleFile(next);
+  };
+
+  const importFromUrl = async (url: string) => {
+    setError(null);
+    setIsImporting(true);
+    try {
+      openImage(await ingestDataUrl(await importImageFromUrl(url)), getUrlFileName(url));
+      setImageUrl('');
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Failed to import the image.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const captureFromCamera = async (dataUrl: string) => {
+    setIsCameraOpen(false);
+    setError(null);
+    try {
+      const date = new Date();
+      openImage(await ingestDataUrl(dataUrl), `camera-${date.toISOString().slice(0, 19).replace(/[:T]/g, '-')}`);
+    } catch (e: any) {
+      console.error(e);
+      setError(e instanceof ImageIngestError ? e.message : "Failed to process image. Please try again.");
     }
   };
 
   const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    handleFiles(Array.from(e.dataTransfer.files ?? []));
+  };
+
+  // Ctrl/Cmd+V outside a text field pastes an image as a new session. Links
+  // are taken anywhere on the upload screen, elsewhere only when they
+  // point at an image file. Read through a ref so the listener, added once,
+  // always sees the current state and handlers.
+  const pasteRef = useRef<(e: ClipboardEvent) => void>(() => {});
+  pasteRef.current = (e: ClipboardEvent) => {
+    if (stage === 'batch' || isProcessing || isTextField(e.target)) return;
+    const images = getTransferImages(e.clipboardData);
+    const text = e.clipboardData?.getData('text/plain') ?? '';
+    const isLink = images.length === 0 && (stage === 'upload' ? isImageUrl(text) : looksLikeImageLink(text));
+    if (images.length === 0 && !isLink) return;
+    e.preventDefault();
+    if (annotations.length > 0 && !window.confirm("Replace the current image and its annotations with the pasted one?")) return;
+    if (isLink) importFromUrl(text);
+    else handleFiles(images);
+  };
+
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => pasteRef.current(e);
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, []);
+
+  useEffect(() => {
+    setImageSize(null);
+    if (!imageSrc) return;
+
+    let cancelled = false;
+    getImageSize(imageSrc)
+      .then(size => { if (!cancelled) setImageSize(size); })
+      .catch(e => console.error("Failed to read image size:", e));
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  // Disabled annotations stay in the editor but take no part in the edit
+  const enabledAnnotations = useMemo(() => getEnabledAnnotations(annotations), [annotations]);
+
+  const autoPrompt = useMemo(
+    () => imageSize ? buildEditInstruction(enabledAnnotations, imageSize, requestSettings.colorMeanings, instructionTemplate, references) : '',
+    [enabledAnnotations, imageSize, requestSettings.colorMeanings, instructionTemplate, references]
+  );
+  // Crop and stitch writes a prompt per crop, so a hand-edited one can't apply
+  const isPromptCustom = !settings.cropAndStitch && !!promptOverride && promptOverride.basedOn === autoPrompt;
+  const currentPrompt = isPromptCustom ? promptOverride!.prompt : autoPrompt;
+  const resultSource = generatedImage ? resultSources.get(generatedImage) : undefined;
+
+  // Re-check the current result for leftover marks whenever it changes
+  useEffect(() => {
+    setResidue(null);
+    if (!imageSrc || !generatedImage || enabledAnnotations.length === 0) return;
+
+    let cancelled = false;
+    detectResidue(imageSrc, generatedImage, enabledAnnotations)
+      .then(report => { if (!cancelled) setResidue(report); })
+      .catch(e => console.error("Residue detection failed:", e));
+    return () => { cancelled = true; };
+  }, [imageSrc, generatedImage, enabledAnnotations]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  const cleanMarks = async () => {
+    if (!imageSrc || !generatedImage) return;
+
+    let report = residue;
+    if (!report) {
+      try {
+        report = await detectResidue(imageSrc, generatedImage, enabledAnnotations);
+        setResidue(report);
+      } catch (e) {
+        // If we can't check, fall back to cleaning every color that was used
+        console.error("Residue detection failed:", e);
+        generateEdit(true, Array.from(new Set(enabledAnnotations.map(a => a.color))));
+        return;
+      }
+    }
+
+    if (!report.found) {
+      setNotice("No leftover marks detected. Nothing to clean.");
+      return;
     }
+    generateEdit(true, report.colors);
   };
 
-  const generateEdit = async (cleanup: boolean = false) => {
+  const generateEdit = async (cleanup: boolean = false, cleanupColors: AnnotationColor[] = ['red']) => {
     if (!imageSrc) return;
     
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
     setError(null);
 
     try {
-      // 1. Flatten Image + Annotations
-      // If cleanup is true, we send the PREVIOUS generated image back to the model with a cleanup prompt.
-      // But the standard flow is: Annotation -> Flatten -> Send.
-      // The "Clean red marks" feature implies we send the *result* back to remove artifacts.
-      
-      let inputImageBase64 = '';
-      let instruction = '';
-
-      if (cleanup && generatedImage) {
-         inputImageBase64 = generatedImage;
-         instruction = CLEAN_UP_INSTRUCTION('red'); // Assume red for now, or track dominant color
-      } else {
-         // Normal flow
-         // Check dominant annotation color for prompt customization
-         const colors = annotations.map(a => a.color);
-         const dominantColor = colors.sort((a,b) => 
-           colors.filter(v => v===a).length - colors.filter(v => v===b).length
-         ).pop() || 'red';
-
-         inputImageBase64 = await flattenAnnotations(imageSrc, annotations);
-         instruction = DEFAULT_INSTRUCTION_TEMPLATE(dominantColor);
-      }
-
-      // 2. Send to Gemini
-      const resultBase64 = await geminiService.editImage(inputImageBase64, instruction);
+      const onRetry = (attempt: number) => setNotice(`Retrying (${attempt} of ${settings.maxRetries})...`);
+      // A clean-up pass sends the previous result back to remove leftover marks
+      const result = settings.cropAndStitch
+        ? await runTiledEdit({
+            provider,
+            settings: requestSettings,
+            imageSrc,
+            fullImageSrc: cleanup && generatedImage ? generatedImage : versions[activeVersion]?.fullImage || imageSrc,
+            annotations: enabledAnnotations,
+            cleanupColors: cleanup ? cleanupColors : undefined,
+            instructionTemplate,
+            cleanupTemplate,
+            references,
+            signal: controller.signal,
+            onRetry,
+            onTileDone: (done, total) => total > 1 && setNotice(`Edited region ${done} of ${total}`),
+          })
+        : await runEdit({
+            provider,
+            settings: requestSettings,
+            imageSrc: cleanup && generatedImage ? generatedImage : imageSrc,
+            annotations: enabledAnnotations,
+            prompt: cleanup ? undefined : currentPrompt,
+            cleanupColors: cleanup ? cleanupColors : undefined,
+            cleanupTemplate,
+            references,
+            variations: cleanup ? 1 : settings.variations,
+            signal: controller.signal,
+            onRetry,
+          });
+      const resultBase64 = result.candidates[0].images[0];
+      // A clean-up pass only removed marks from the result it was given
+      const previous = generatedImage ? resultSources.get(generatedImage) : undefined;
+      const madeFrom: ResultSource = cleanup
+        ? {
+            prompt: [previous?.prompt ?? currentPrompt, result.prompt].filter(Boolean).join('\n\n'),
+            annotations: previous?.annotations ?? enabledAnnotations,
+          }
+        : { prompt: result.prompt ?? currentPrompt, annotations: enabledAnnotations };
+      setResultSources(prev => {
+        const next = new Map(prev);
+        responseImages(result).forEach(image => next.set(image, madeFrom));
+        return next;
+      });
+      setResponse(result);
+      setStarredVariations([]);
+      setEditHistory(prev => pushCommand(prev, createGenerationCommand(annotations, generatedImage, resultBase64)));
       setGeneratedImage(resultBase64);
-      setStage('result');
+      setVersions(prev => prev.map((v, i) => i === activeVersion ? { ...v, annotations, generatedImage: resultBase64 } : v));
+      setStage(responseImages(result).length > 1 ? 'variations' : 'result');
+      setIsPromptOpen(false);
+      recordHistory(imageSrc, resultBase64, annotations);
 
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Something went wrong during generation.");
+      if (err instanceof CancelledError) {
+        setNotice("Generation cancelled.");
+      } else {
+        console.error(err);
+        setError(getErrorMessage(err));
+      }
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
     }
   };
 
-  const downloadResult = () => {
-    if (!generatedImage) return;
-    const link = document.createElement('a');
-    link.href = generatedImage;
-    link.download = 'nanobanana-edit.png';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const cancelGeneration = () => abortRef.current?.abort();
+
+  const responseImages = (result: ImageEditResult) => result.candidates.flatMap(c => c.images);
+
+  const toggleStar = (index: number) =>
+    setStarredVariations(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+  const selectCandidate = (image: string) => {
+    // Redoing the generation should bring back the picked candidate
+    setEditHistory(prev => {
+      const last = prev.commands[prev.index - 1];
+      if (last?.kind !== 'generate' || last.resultAfter !== generatedImage) return prev;
+      return { ...prev, commands: prev.commands.map(c => c === last ? { ...c, resultAfter: image } : c) };
+    });
+    setResult(image);
+  };
+
+
+  const restoreHistoryItem = (item: HistoryItem) => {
+    startSession(item.originalImage, item.annotations, item.generatedImage);
+    setError(null);
+    setStage('edit');
+    setIsHistoryOpen(false);
+  };
+
+  const deleteHistoryItem = async (id: string) => {
+    try {
+      await historyStore.remove(id);
+      await refreshHistory();
+    } catch (e) {
+      setError("Failed to delete history item.");
+    }
   };
 
   return (
     <div className="h-full flex flex-col">
       {/* API Key Warning (if missing) */}
-      {!process.env.API_KEY && (
+      {!provider.isConfigured() && (
          <div className="bg-amber-100 text-amber-800 text-xs p-2 text-center font-medium">
-           Warning: process.env.API_KEY is missing. App will not generate results.
+           Warning: {provider.label} is not configured (is process.env.API_KEY missing?). App will not generate results.
          </div>
       )}
 
-      {/* Global Error Toast */}
-      {error && (
-        <div className="fixed top-4 left-1/2 -translate-x-1/2 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg shadow-lg flex items-center z-50 animate-in slide-in-from-top-5 fade-in">
-          <AlertCircle className="w-5 h-5 mr-2" />
-          {error}
-          <button onClick={() => setError(null)} className="ml-4 text-red-400 hover:text-red-600">
-            <span className="sr-only">Close</span>×
-          </button>
+      {/* Toasts, stacked so an error and a notice never cover each other */}
+      {(error || notice) && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center space-y-2">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-lg shadow-lg flex items-center animate-in slide-in-from-top-5 fade-in">
+              <AlertCircle className="w-5 h-5 mr-2" />
+              {error}
+              <button onClick={() => setError(null)} className="ml-4 text-red-400 hover:text-red-600">
+                <span className="sr-only">Close</span>×
+              </button>
+            </div>
+          )}
+          {notice && (
+            <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 px-4 py-3 rounded-lg shadow-lg flex items-center animate-in slide-in-from-top-5 fade-in">
+              <CheckCircle2 className="w-5 h-5 mr-2" />
+              {notice}
+            </div>
+          )}
         </div>
       )}
 
@@ -134,15 +598,16 @@ const App: React.FC = () => {
                  <div className="w-16 h-16 bg-slate-100 rounded-full flex items-center justify-center mb-4 text-slate-400 group-hover:text-primary group-hover:bg-primary/10 transition-colors">
                    <UploadCloud className="w-8 h-8" />
                  </div>
-                 <p className="text-lg font-medium text-slate-700 mb-2">Drag & drop an image</p>
-                 <p className="text-sm text-slate-400 mb-6">JPG, PNG, or WebP up to 10MB</p>
+                 <p className="text-lg font-medium text-slate-700 mb-2">Drag & drop images or a project</p>
+                 <p className="text-sm text-slate-400 mb-6">JPG, PNG, WebP, HEIC, AVIF or TIFF up to 10MB, or paste with Ctrl+V</p>
                  
                  <label className="cursor-pointer">
                    <input 
                      type="file" 
                      className="hidden" 
-                     accept="image/*"
-                     onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+                     accept={IMAGE_ACCEPT}
+                     multiple
+                     onChange={(e) => { handleFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
                    />
                    <span className="px-6 py-3 bg-slate-900 text-white rounded-full font-medium hover:bg-slate-800 transition-transform active:scale-95 inline-block">
                      Choose File
@@ -151,22 +616,112 @@ const App: React.FC = () => {
               </div>
             </div>
             
-            <div className="flex justify-center space-x-8 text-xs text-slate-400">
-               <span className="flex items-center"><Camera className="w-3 h-3 mr-1"/> Production Ready</span>
-               <span className="flex items-center"><ImagePlus className="w-3 h-3 mr-1"/> High Res Support</span>
+            <div className="flex space-x-2">
+              <form
+                className="flex-1 flex items-center bg-white border border-slate-200 rounded-full pl-4 pr-1 py-1 focus-within:border-slate-400"
+                onSubmit={(e) => { e.preventDefault(); if (imageUrl.trim()) importFromUrl(imageUrl); }}
+              >
+                <Link className="w-4 h-4 text-slate-400 shrink-0" />
+                <input
+                  type="url"
+                  value={imageUrl}
+                  onChange={(e) => setImageUrl(e.target.value)}
+                  placeholder="Image link"
+                  className="flex-1 min-w-0 px-2 text-sm outline-none bg-transparent"
+                />
+                <button
+                  type="submit"
+                  disabled={!imageUrl.trim() || isImporting}
+                  className="flex items-center px-3 py-1.5 text-sm font-medium text-slate-700 rounded-full hover:bg-slate-100 disabled:opacity-40"
+                >
+                  {isImporting && <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />}
+                  Import
+                </button>
+              </form>
+              <button
+                onClick={() => setIsCameraOpen(true)}
+                className="flex items-center px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-200 rounded-full hover:border-slate-300"
+              >
+                <Camera className="w-4 h-4 mr-1.5" />
+                Camera
+              </button>
+            </div>
+
+            <div className="flex justify-center space-x-6">
+              {historyItems.length > 0 && (
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="inline-flex items-center text-sm font-medium text-slate-500 hover:text-slate-800"
+                >
+                  <History className="w-4 h-4 mr-1.5" />
+                  Recent edits ({historyItems.length})
+                </button>
+              )}
+              <label className="inline-flex items-center text-sm font-medium text-slate-500 hover:text-slate-800 cursor-pointer">
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={`${PROJECT_EXTENSION},.json`}
+                  onChange={(e) => { if (e.target.files?.[0]) openProject(e.target.files[0]); e.target.value = ''; }}
+                />
+                <FolderOpen className="w-4 h-4 mr-1.5" />
+                Open project
+              </label>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="inline-flex items-center text-sm font-medium text-slate-500 hover:text-slate-800"
+              >
+                <Settings className="w-4 h-4 mr-1.5" />
+                Settings
+              </button>
             </div>
           </div>
         </div>
       )}
 
+      {stage !== 'batch' && stage !== 'variations' && (
+        <ImageQueue files={queue} onNext={openNextInQueue} onClear={() => setQueue([])} />
+      )}
+
+      {(stage === 'edit' || stage === 'result') && (
+        <VersionChain versions={versions} activeIndex={activeVersion} onSelect={selectVersion} />
+      )}
+
       {stage === 'edit' && imageSrc && (
         <Editor 
+          key={versions[activeVersion]?.id}
           imageSrc={imageSrc}
           annotations={annotations}
-          setAnnotations={setAnnotations}
+          onEdit={editAnnotations}
+          history={editHistory}
+          onUndo={() => travelHistory(editHistory.index - 1)}
+          onRedo={() => travelHistory(editHistory.index + 1)}
+          onJumpHistory={travelHistory}
+          snippets={library.snippets}
+          references={references}
+          onChangeReferences={setReferences}
           onGenerate={() => generateEdit(false)}
+          onCancel={cancelGeneration}
           isProcessing={isProcessing}
-          onClose={() => { setStage('upload'); setImageSrc(null); }}
+          onClose={() => { setStage('upload'); setImageSrc(null); setVersions([]); }}
+          onOpenHistory={() => setIsHistoryOpen(true)}
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          onOpenLibrary={() => setIsLibraryOpen(true)}
+          onOpenPrompt={() => setIsPromptOpen(true)}
+          onBatch={() => setStage('batch')}
+          onSaveProject={saveProject}
+        />
+      )}
+
+      {stage === 'batch' && imageSrc && (
+        <BatchPanel
+          referenceImage={imageSrc}
+          annotations={enabledAnnotations}
+          settings={requestSettings}
+          instructionTemplate={instructionTemplate}
+          references={references}
+          provider={provider}
+          onClose={() => setStage('edit')}
         />
       )}
 
@@ -175,10 +730,99 @@ const App: React.FC = () => {
           before={imageSrc}
           after={generatedImage}
           onReset={() => setStage('edit')}
-          onDownload={downloadResult}
-          onRefine={() => generateEdit(true)}
+          onContinue={continueFromResult}
+          onDownload={() => setIsExportOpen(true)}
+          onRefine={cleanMarks}
+          onUndo={() => travelHistory(editHistory.index - 1)}
+          onRedo={() => travelHistory(editHistory.index + 1)}
+          canUndo={!isProcessing && editHistory.commands[editHistory.index - 1]?.kind === 'generate'}
+          canRedo={!isProcessing && editHistory.commands[editHistory.index]?.kind === 'generate'}
+          isProcessing={isProcessing}
+          onCancel={cancelGeneration}
+          residue={residue}
+          annotations={enabledAnnotations}
+          onOpenHistory={() => setIsHistoryOpen(true)}
+          onSaveProject={saveProject}
+          aside={response && (
+            <ResponsePanel
+              response={response}
+              selectedImage={generatedImage}
+              onSelect={selectCandidate}
+              onOpenGrid={() => setStage('variations')}
+            />
+          )}
+        />
+      )}
+
+      {stage === 'variations' && response && (
+        <VariationGrid
+          images={responseImages(response)}
+          selectedImage={generatedImage}
+          starred={starredVariations}
+          onToggleStar={toggleStar}
+          onPick={(image) => { selectCandidate(image); setStage('result'); }}
+          onBack={() => setStage('edit')}
+        />
+      )}
+
+      <HistoryPanel
+        isOpen={isHistoryOpen}
+        items={historyItems}
+        onClose={() => setIsHistoryOpen(false)}
+        onRestore={restoreHistoryItem}
+        onDownload={(item) => downloadDataUrl(item.generatedImage, `nanobanana-edit-${item.timestamp}.png`)}
+        onDelete={deleteHistoryItem}
+      />
+
+      <PromptPreview
+        isOpen={isPromptOpen && stage === 'edit'}
+        prompt={currentPrompt}
+        isCustom={isPromptCustom}
+        isReadOnly={settings.cropAndStitch}
+        isProcessing={isProcessing}
+        onChange={(prompt) => setPromptOverride({ prompt, basedOn: autoPrompt })}
+        onReset={() => setPromptOverride(null)}
+        onGenerate={() => generateEdit(false)}
+        onCancel={cancelGeneration}
+        onClose={() => setIsPromptOpen(false)}
+      />
+
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        settings={settings}
+        onChange={updateSettings}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+
+      {imageSrc && generatedImage && (
+        <ExportDialog
+          isOpen={isExportOpen}
+          before={imageSrc}
+          after={generatedImage}
+          annotations={resultSource?.annotations ?? enabledAnnotations}
+          instructions={resultSource?.prompt ?? currentPrompt}
+          sourceName={source.name}
+          originalSize={source.originalSize}
+          workingSize={imageSize}
+          version={activeVersion + 1}
+          settings={settings}
+          onChangeSettings={updateSettings}
+          onClose={() => setIsExportOpen(false)}
         />
       )}
+
+      <WebcamCapture
+        isOpen={isCameraOpen}
+        onCapture={captureFromCamera}
+        onClose={() => setIsCameraOpen(false)}
+      />
+
+      <LibraryPanel
+        isOpen={isLibraryOpen}
+        library={library}
+        onChange={updateLibrary}
+        onClose={() => setIsLibraryOpen(false)}
+      />
     </div>
   );
 };
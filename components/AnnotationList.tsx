@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GripVertical, Eye, EyeOff, Copy, Trash2 } from 'lucide-react';
+import { Annotation, ReferenceImage, Snippet } from '../types';
+import { COLOR_MAP } from '../constants';
+import { SHAPE_LABELS } from '../utils/geometry';
+import { getAnnotationNumbers } from '../utils/prompt';
+import { SnippetTextarea } from './SnippetTextarea';
+import { ReferenceStrip } from './ReferenceStrip';
+
+interface AnnotationListProps {
+  annotations: Annotation[];
+  selectedIds: string[];
+  // `additive` toggles the annotation in a multi-selection
+  onSelect: (id: string, additive: boolean) => void;
+  onTextChange: (id: string, text: string) => void;
+  snippets: Snippet[];
+  onReferencesChange: (id: string, references: ReferenceImage[]) => void;
+  // Reference images that can still be attached to the request
+  remainingReferences: number;
+  onToggle: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  // Moves the annotation at `from` so it ends up at `to`
+  onReorder: (from: number, to: number) => void;
+}
+
+export const AnnotationList: React.FC<AnnotationListProps> = ({
+  annotations,
+  selectedIds,
+  onSelect,
+  onTextChange,
+  snippets,
+  onReferencesChange,
+  remainingReferences,
+  onToggle,
+  onDuplicate,
+  onDelete,
+  onReorder
+}) => {
+  const numbers = getAnnotationNumbers(annotations);
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Keep a selection made on the canvas in view
+  useEffect(() => {
+    if (selectedIds.length !== 1) return;
+    rowRefs.current.get(selectedIds[0])?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIds]);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  if (annotations.length === 0) {
+    return <p className="text-sm text-slate-400 px-2">Draw on the image to add an annotation.</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {annotations.map((ann, index) => {
+        const isSelected = selectedIds.includes(ann.id);
+        const number = numbers.get(ann.id);
+        return (
+          <li
+            key={ann.id}
+            ref={el => { if (el) rowRefs.current.set(ann.id, el); else rowRefs.current.delete(ann.id); }}
+            onClick={(e) => onSelect(ann.id, e.shiftKey)}
+            onDragOver={(e) => {
+              if (dragIndex === null) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null && dragIndex !== index) onReorder(dragIndex, index);
+              endDrag();
+            }}
+            className={`rounded-lg border p-2 space-y-1.5 ${
+              isSelected ? 'border-slate-900 bg-slate-50' : 'border-slate-200 bg-white hover:border-slate-300'
+            } ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-slate-400' : ''} ${dragIndex === index ? 'opacity-40' : ''}`}
+          >
+            <div className="flex items-center space-x-1.5">
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  const row = rowRefs.current.get(ann.id);
+                  if (row) e.dataTransfer.setDragImage(row, 12, 12);
+                  setDragIndex(index);
+                }}
+                onDragEnd={endDrag}
+                className="text-slate-300 hover:text-slate-500 cursor-grab"
+                title="Drag to reorder"
+              >
+                <GripVertical className="w-4 h-4" />
+              </span>
+              <span
+                className="min-w-[20px] h-5 px-1 text-[11px] leading-5 text-center font-bold text-white rounded-sm"
+                style={{ backgroundColor: ann.disabled ? '#cbd5e1' : COLOR_MAP[ann.color] }}
+              >
+                {number ?? '–'}
+              </span>
+              <span className={`flex-1 text-xs font-medium capitalize truncate ${ann.disabled ? 'text-slate-400 line-through' : 'text-slate-600'}`}>
+                {SHAPE_LABELS[ann.shape]}
+              </span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggle(ann.id); }}
+                className="p-1 text-slate-400 hover:text-slate-700"
+                title={ann.disabled ? 'Include in the edit' : 'Leave out of the edit'}
+              >
+                {ann.disabled ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDuplicate(ann.id); }}
+                className="p-1 text-slate-400 hover:text-slate-700"
+                title="Duplicate"
+              >
+                <Copy className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(ann.id); }}
+                className="p-1 text-slate-400 hover:text-red-500"
+                title="Delete"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <SnippetTextarea
+              value={ann.text}
+              onChange={(text) => onTextChange(ann.id, text)}
+              snippets={snippets}
+              showPickerButton
+              onFocus={() => { if (!isSelected) onSelect(ann.id, false); }}
+              onClick={(e) => e.stopPropagation()}
+              rows={2}
+              textareaClassName={`block w-full text-sm border border-slate-200 rounded-md p-1.5 pr-6 resize-y outline-none focus:border-slate-400 ${ann.disabled ? 'text-slate-400' : 'text-slate-800'}`}
+              placeholder="Type instruction... (/ for snippets)"
+            />
+            {(isSelected || !!ann.references?.length) && (
+              <ReferenceStrip
+                references={ann.references ?? []}
+                onChange={(references) => onReferencesChange(ann.id, references)}
+                remaining={remainingReferences}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
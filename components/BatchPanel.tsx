@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, UploadCloud, Play, Square, Download, RotateCcw, Trash2, Loader2, AlertCircle, CheckCircle2, X } from 'lucide-react';
+import { Annotation, AppSettings, BatchItem, ImageEditProvider, ReferenceImage } from '../types';
+import { CompareSlider } from './CompareSlider';
+import { getImageSize } from '../utils/canvas';
+import { ingestImage, isImageFile, IMAGE_ACCEPT } from '../utils/ingest';
+import { scaleAnnotation } from '../utils/geometry';
+import { runWithConcurrency } from '../utils/concurrency';
+import { createZip } from '../utils/zip';
+import { downloadDataUrl, downloadBlob, dataUrlToBytes, extensionForDataUrl } from '../utils/download';
+import { ImageSize } from '../utils/prompt';
+import { runEdit } from '../services/pipeline';
+import { CancelledError, getErrorMessage } from '../services/errors';
+
+interface BatchPanelProps {
+  // The annotated image the annotations were drawn on
+  referenceImage: string;
+  annotations: Annotation[];
+  settings: AppSettings;
+  // Opening wording of the prompt, from the library
+  instructionTemplate: string;
+  // Reference images attached to the whole request
+  references: ReferenceImage[];
+  provider: ImageEditProvider;
+  onClose: () => void;
+}
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '') || 'image';
+
+const resultFileName = (item: BatchItem, index: number) =>
+  `${String(index + 1).padStart(2, '0')}-${baseName(item.name)}-edited.${extensionForDataUrl(item.result || '')}`;
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ referenceImage, annotations, settings, instructionTemplate, references, provider, onClose }) => {
+  const [referenceSize, setReferenceSize] = useState<ImageSize | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [openItemId, setOpenItemId] = useState<string | null>(null);
+  // Dropped or picked files that couldn't be added, with the reason
+  const [skipped, setSkipped] = useState<{ name: string; reason: string }[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // The current list, for a run in progress to see items removed since it started
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  useEffect(() => {
+    getImageSize(referenceImage).then(setReferenceSize).catch(e => console.error("Failed to read image size:", e));
+  }, [referenceImage]);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const addFiles = async (files: FileList | File[]) => {
+    const all = Array.from(files);
+    const images = all.filter(isImageFile);
+    const failed = all.filter(file => !isImageFile(file)).map(file => ({ name: file.name, reason: 'not an image' }));
+    for (const file of images) {
+      try {
+        const { working: imageSrc } = await ingestImage(file);
+        const { width, height } = await getImageSize(imageSrc);
+        setItems(prev => [...prev, {
+          id: Math.random().toString(36).substr(2, 9),
+          name: file.name,
+          imageSrc,
+          width,
+          height,
+          status: 'pending',
+          result: null,
+          error: null,
+        }]);
+      } catch (e) {
+        console.error(`Failed to load ${file.name}:`, e);
+        failed.push({ name: file.name, reason: e instanceof Error ? e.message : 'could not be read' });
+      }
+    }
+    setSkipped(failed);
+  };
+
+  const processItem = async (item: BatchItem, signal?: AbortSignal) => {
+    if (!referenceSize || signal?.aborted) return;
+    if (!itemsRef.current.some(i => i.id === item.id)) return;
+    updateItem(item.id, { status: 'running', error: null });
+    try {
+      // Same framing, possibly a different resolution: scale proportionally
+      const sx = item.width / referenceSize.width;
+      const sy = item.height / referenceSize.height;
+      const response = await runEdit({
+        provider,
+        settings,
+        imageSrc: item.imageSrc,
+        annotations: annotations.map(a => scaleAnnotation(a, sx, sy)),
+        instructionTemplate,
+        references,
+        signal,
+      });
+      // Batches take the first image; candidates are picked in the single-image view
+      updateItem(item.id, { status: 'done', result: response.candidates[0].images[0] });
+    } catch (err) {
+      // A cancelled item goes back in the queue for the next run
+      if (err instanceof CancelledError) updateItem(item.id, { status: 'pending' });
+      else updateItem(item.id, { status: 'error', error: getErrorMessage(err) });
+    }
+  };
+
+  // Retrying a single item is a run of one, so Cancel and leaving the
+  // stage stop it like any other
+  const run = async (queue: BatchItem[]) => {
+    if (queue.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    await runWithConcurrency(queue, settings.batchConcurrency, (item: BatchItem) => processItem(item, controller.signal));
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const runBatch = () => run(items.filter(item => item.status === 'pending' || item.status === 'error'));
+
+  // Stop the run when leaving the batch stage
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const downloadAll = () => {
+    const entries = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.result)
+      .map(({ item, index }) => ({ name: resultFileName(item, index), data: dataUrlToBytes(item.result!) }));
+    if (entries.length === 0) return;
+    downloadBlob(createZip(entries), 'nanobanana-batch.zip');
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const finishedCount = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const runnableCount = items.filter(item => item.status === 'pending' || item.status === 'error').length;
+  const openIndex = items.findIndex(item => item.id === openItemId);
+  const openItem = openIndex >= 0 ? items[openIndex] : null;
+
+  if (openItem && openItem.result) {
+    return (
+      <CompareSlider
+        before={openItem.imageSrc}
+        after={openItem.result}
+        title={openItem.name}
+        resetLabel="Back to Batch"
+        annotations={referenceSize ? annotations.map(a =>
+          scaleAnnotation(a, openItem.width / referenceSize.width, openItem.height / referenceSize.height)
+        ) : []}
+        onReset={() => setOpenItemId(null)}
+        onDownload={() => downloadDataUrl(openItem.result!, resultFileName(openItem, openIndex))}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="flex flex-col h-full bg-slate-50"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+    >
+      <div className="h-16 border-b flex items-center justify-between px-4 bg-white shrink-0">
+        <div className="flex items-center space-x-3">
+          <button onClick={onClose} disabled={isRunning} className="p-2 hover:bg-slate-100 rounded-full text-slate-500 disabled:opacity-30" title="Back to Editor">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h2 className="text-lg font-bold text-slate-800">Batch</h2>
+          <span className="text-xs text-slate-400">
+            {annotations.length} {annotations.length === 1 ? 'annotation' : 'annotations'} applied to every image
+          </span>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <label className="cursor-pointer flex items-center px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg">
+            <input
+              type="file"
+              className="hidden"
+              accept={IMAGE_ACCEPT}
+              multiple
+              onChange={(e) => { if (e.target.files) addFiles(e.target.files); e.target.value = ''; }}
+            />
+            <UploadCloud className="w-4 h-4 mr-2" />
+            Add Images
+          </label>
+          <button
+            onClick={downloadAll}
+            disabled={doneCount === 0}
+            className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download ZIP
+          </button>
+          {isRunning ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="flex items-center space-x-2 bg-red-500 text-white px-6 py-2 rounded-full hover:bg-red-600 transition-all font-medium"
+            >
+              <Square className="w-4 h-4" />
+              <span>Cancel</span>
+            </button>
+          ) : (
+            <button
+              onClick={runBatch}
+              disabled={runnableCount === 0 || !referenceSize}
+              className="flex items-center space-x-2 bg-slate-900 text-white px-6 py-2 rounded-full hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+            >
+              <Play className="w-4 h-4" />
+              <span>Run {runnableCount > 0 ? runnableCount : ''}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="h-1 bg-slate-200 shrink-0">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(finishedCount / items.length) * 100}%` }} />
+        </div>
+      )}
+
+      {skipped.length > 0 && (
+        <div className="border-b bg-red-50 px-4 py-2 flex items-start space-x-2 text-xs text-red-700 shrink-0">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium">
+              {skipped.length} {skipped.length === 1 ? 'file was' : 'files were'} not added
+            </p>
+            {skipped.map((file, i) => (
+              <p key={i} className="truncate" title={file.reason}>{file.name}: {file.reason}</p>
+            ))}
+          </div>
+          <button onClick={() => setSkipped([])} className="p-0.5 text-red-400 hover:text-red-600" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-6">
+        {items.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center border-2 border-dashed border-slate-200 rounded-2xl">
+            <UploadCloud className="w-10 h-10 text-slate-300 mb-3" />
+            <p className="text-lg font-medium text-slate-700">Drop images with the same framing</p>
+            <p className="text-sm text-slate-400">Your annotations are scaled to each image's size.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-[repeat(auto-fill,minmax(200px,1fr))] gap-4">
+            {items.map(item => (
+              <div key={item.id} className="bg-white rounded-xl border border-slate-200 overflow-hidden shadow-sm">
+                <button
+                  onClick={() => item.result && setOpenItemId(item.id)}
+                  disabled={!item.result}
+                  className="relative block w-full aspect-square bg-slate-100"
+                  title={item.result ? 'Compare' : undefined}
+                >
+                  <img src={item.result || item.imageSrc} alt="" className="w-full h-full object-cover" draggable={false} />
+                  {item.status === 'running' && (
+                    <div className="absolute inset-0 bg-white/60 flex items-center justify-center">
+                      <Loader2 className="w-6 h-6 animate-spin text-slate-600" />
+                    </div>
+                  )}
+                </button>
+
+                <div className="p-2 flex items-center space-x-2">
+                  {item.status === 'done' && <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />}
+                  {item.status === 'error' && <AlertCircle className="w-4 h-4 text-red-500 shrink-0" />}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-medium text-slate-700 truncate" title={item.name}>{item.name}</p>
+                    {item.error && <p className="text-[11px] text-red-500 truncate" title={item.error}>{item.error}</p>}
+                  </div>
+                  {(item.status === 'error' || item.status === 'done') && (
+                    <button onClick={() => run([item])} disabled={isRunning} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Retry">
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setItems(prev => prev.filter(i => i.id !== item.id))}
+                    disabled={item.status === 'running'}
+                    className="p-1 text-red-400 hover:text-red-600 disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
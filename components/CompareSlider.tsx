@@ -1,18 +1,112 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Download, RefreshCw } from 'lucide-react';
+import {
+  Download, RefreshCw, History, CornerDownRight, ScanSearch, CheckCircle2, Save,
+  SquareSplitHorizontal, Flame, Layers, Columns2, Shapes, Maximize, Loader2, Undo2, Redo2
+} from 'lucide-react';
+import { Annotation, ResidueReport } from '../types';
+import { COLOR_MAP, STROKE_WIDTH, BRUSH_OPACITY } from '../constants';
+import { getImageSize } from '../utils/canvas';
+import { toSvgPath } from '../utils/geometry';
+import { computeDifference, drawDifference, DifferenceMap } from '../utils/diff';
+
+type CompareMode = 'wipe' | 'heatmap' | 'onion' | 'side';
+
+const COMPARE_MODES: { id: CompareMode; label: string; icon: React.ElementType }[] = [
+  { id: 'wipe', label: 'Wipe', icon: SquareSplitHorizontal },
+  { id: 'heatmap', label: 'Difference', icon: Flame },
+  { id: 'onion', label: 'Onion skin', icon: Layers },
+  { id: 'side', label: 'Side by side', icon: Columns2 },
+];
+
+const MAX_ZOOM = 8;
+
+// Shared by both panes in side-by-side mode, in pane pixels
+interface Viewport {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const FIT_VIEWPORT: Viewport = { scale: 1, x: 0, y: 0 };
+
+// Keeps the zoomed content covering the pane
+const clampViewport = (view: Viewport, width: number, height: number): Viewport => ({
+  scale: view.scale,
+  x: Math.min(0, Math.max(width - width * view.scale, view.x)),
+  y: Math.min(0, Math.max(height - height * view.scale, view.y)),
+});
 
 interface CompareSliderProps {
   before: string;
   after: string;
+  title?: string;
+  resetLabel?: string;
+  beforeLabel?: string;
+  afterLabel?: string;
   onReset: () => void;
   onDownload: () => void;
-  onRefine: () => void;
+  // Optional actions, hidden when not provided
+  onContinue?: () => void;
+  onRefine?: () => void;
+  onOpenHistory?: () => void;
+  onSaveProject?: () => void;
+  // Step back and forth through generations. Annotation steps in between
+  // are undone in the editor, so these only apply when the next step is one.
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  // While a clean-up pass runs; `onCancel` stops it
+  isProcessing?: boolean;
+  onCancel?: () => void;
+  residue?: ResidueReport | null;
+  // The boxes drawn on `before`, which reviewers can overlay on any mode
+  annotations?: Annotation[];
+  // Shown to the right of the image, e.g. the model's response
+  aside?: React.ReactNode;
 }
 
-export const CompareSlider: React.FC<CompareSliderProps> = ({ before, after, onReset, onDownload, onRefine }) => {
+export const CompareSlider: React.FC<CompareSliderProps> = ({
+  before,
+  after,
+  title = 'Result',
+  resetLabel = 'New Edit',
+  beforeLabel = 'Original',
+  afterLabel = 'Edited',
+  onReset,
+  onDownload,
+  onContinue,
+  onRefine,
+  onOpenHistory,
+  onSaveProject,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  isProcessing = false,
+  onCancel,
+  residue = null,
+  annotations = [],
+  aside
+}) => {
   const [position, setPosition] = useState(50);
   const [isDragging, setIsDragging] = useState(false);
+  const [showResidue, setShowResidue] = useState(true);
   const containerRef = useRef<HTMLDivElement>(null);
+  const [mode, setMode] = useState<CompareMode>('wipe');
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [beforeSize, setBeforeSize] = useState<{ width: number; height: number } | null>(null);
+
+  const [diffMap, setDiffMap] = useState<DifferenceMap | null>(null);
+  const [threshold, setThreshold] = useState(24);
+  const [changedRatio, setChangedRatio] = useState<number | null>(null);
+  const heatmapRef = useRef<HTMLCanvasElement>(null);
+
+  const [onionBlend, setOnionBlend] = useState(50);
+
+  const [viewport, setViewport] = useState<Viewport>(FIT_VIEWPORT);
+  const panesRef = useRef<HTMLDivElement>(null);
+  const panStart = useRef<{ clientX: number; clientY: number; view: Viewport } | null>(null);
 
   const handleMove = (clientX: number) => {
     if (!containerRef.current) return;
@@ -41,60 +135,351 @@ export const CompareSlider: React.FC<CompareSliderProps> = ({ before, after, onR
     };
   }, []);
 
+  useEffect(() => {
+    setBeforeSize(null);
+    let cancelled = false;
+    getImageSize(before)
+      .then(size => { if (!cancelled) setBeforeSize(size); })
+      .catch(e => console.error("Failed to read image size:", e));
+    return () => { cancelled = true; };
+  }, [before]);
+
+  // The difference is only computed once the heatmap is first shown
+  useEffect(() => {
+    setDiffMap(null);
+    setChangedRatio(null);
+  }, [before, after]);
+
+  useEffect(() => {
+    if (mode !== 'heatmap' || diffMap) return;
+    let cancelled = false;
+    computeDifference(before, after)
+      .then(map => { if (!cancelled) setDiffMap(map); })
+      .catch(e => console.error("Difference failed:", e));
+    return () => { cancelled = true; };
+  }, [mode, diffMap, before, after]);
+
+  useEffect(() => {
+    if (mode !== 'heatmap' || !diffMap || !heatmapRef.current) return;
+    setChangedRatio(drawDifference(heatmapRef.current, diffMap, threshold));
+  }, [mode, diffMap, threshold]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const el = panesRef.current;
+    if (mode !== 'side' || !el) return;
+
+    const onWheel = (e: WheelEvent) => {
+      const pane = (e.target as HTMLElement).closest('[data-pane]');
+      if (!pane) return;
+      e.preventDefault();
+      const rect = pane.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setViewport(view => {
+        const scale = Math.max(1, Math.min(MAX_ZOOM, view.scale * Math.exp(-e.deltaY * 0.0015)));
+        const ratio = scale / view.scale;
+        // Zoom around the cursor
+        return clampViewport({ scale, x: px - (px - view.x) * ratio, y: py - (py - view.y) * ratio }, rect.width, rect.height);
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, [mode]);
+
+  const onPanePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panStart.current = { clientX: e.clientX, clientY: e.clientY, view: viewport };
+  };
+
+  const onPanePointerMove = (e: React.PointerEvent) => {
+    const start = panStart.current;
+    if (!start) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    setViewport(clampViewport({
+      scale: start.view.scale,
+      x: start.view.x + e.clientX - start.clientX,
+      y: start.view.y + e.clientY - start.clientY,
+    }, rect.width, rect.height));
+  };
+
+  const onPanePointerUp = () => {
+    panStart.current = null;
+  };
+
+  const residueOverlay = residue?.found && showResidue && residue.regions.map((region, i) => (
+    <div
+      key={i}
+      className="absolute border-2 border-dashed rounded-sm pointer-events-none animate-pulse"
+      style={{
+        left: `${(region.x / residue.width) * 100}%`,
+        top: `${(region.y / residue.height) * 100}%`,
+        width: `${(region.width / residue.width) * 100}%`,
+        height: `${(region.height / residue.height) * 100}%`,
+        borderColor: COLOR_MAP[region.color],
+        boxShadow: '0 0 0 2px rgba(255,255,255,0.7)',
+      }}
+    />
+  ));
+
+  // Annotation coordinates are in `before` pixels; the overlay stretches
+  // them over whatever size the image is displayed at
+  const annotationOverlay = showAnnotations && beforeSize && (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${beforeSize.width} ${beforeSize.height}`}
+      preserveAspectRatio="none"
+    >
+      {annotations.map(ann => (
+        <path
+          key={ann.id}
+          d={toSvgPath(ann, 1)}
+          fill="none"
+          stroke={COLOR_MAP[ann.color]}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          {...(ann.shape === 'brush'
+            ? { strokeWidth: ann.brushSize, strokeOpacity: BRUSH_OPACITY }
+            : { strokeWidth: STROKE_WIDTH, vectorEffect: 'non-scaling-stroke' })}
+        />
+      ))}
+    </svg>
+  );
+
+  const labels = (
+    <>
+      <div className="absolute bottom-4 left-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none uppercase">{beforeLabel}</div>
+      <div className="absolute bottom-4 right-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none uppercase">{afterLabel}</div>
+    </>
+  );
+
   return (
     <div className="flex flex-col h-full bg-slate-50">
       <div className="h-16 border-b flex items-center justify-between px-6 bg-white shrink-0">
-        <h2 className="text-lg font-bold text-slate-800">Result</h2>
-        <div className="flex space-x-3">
+        <h2 className="text-lg font-bold text-slate-800 truncate">{title}</h2>
+        <div className="flex items-center space-x-3">
+          {residue && (residue.found ? (
+            <button
+              onClick={() => setShowResidue(!showResidue)}
+              className="flex items-center px-3 py-1 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded-full"
+              title={showResidue ? 'Hide highlighted marks' : 'Highlight leftover marks'}
+            >
+              <ScanSearch className="w-3.5 h-3.5 mr-1.5" />
+              {residue.regions.length} leftover {residue.regions.length === 1 ? 'mark' : 'marks'}
+            </button>
+          ) : (
+            <span className="flex items-center px-3 py-1 text-xs font-medium text-emerald-700 bg-emerald-50 border border-emerald-200 rounded-full">
+              <CheckCircle2 className="w-3.5 h-3.5 mr-1.5" />
+              No marks left
+            </span>
+          ))}
+          {onUndo && (
+            <button onClick={onUndo} disabled={!canUndo} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="Undo generation">
+              <Undo2 className="w-5 h-5" />
+            </button>
+          )}
+          {onRedo && (
+            <button onClick={onRedo} disabled={!canRedo} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30" title="Redo generation">
+              <Redo2 className="w-5 h-5" />
+            </button>
+          )}
+          {onSaveProject && (
+            <button onClick={onSaveProject} className="p-2 text-slate-500 hover:text-slate-800" title="Save project (.nbproj)">
+              <Save className="w-5 h-5" />
+            </button>
+          )}
+          {onOpenHistory && (
+            <button onClick={onOpenHistory} className="p-2 text-slate-500 hover:text-slate-800" title="History">
+              <History className="w-5 h-5" />
+            </button>
+          )}
           <button onClick={onReset} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-900">
-            New Edit
-          </button>
-          <button onClick={onRefine} className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors" title="Re-run with clean up prompt">
-             <RefreshCw className="w-4 h-4 mr-2" />
-             Clean Marks
+            {resetLabel}
           </button>
+          {onContinue && (
+            <button onClick={onContinue} className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors" title="Use this result as the base for the next edit">
+              <CornerDownRight className="w-4 h-4 mr-2" />
+              Continue Editing
+            </button>
+          )}
+          {isProcessing && onCancel && (
+            <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-red-500 hover:bg-red-50 rounded-lg transition-colors">
+              Cancel
+            </button>
+          )}
+          {onRefine && (
+            <button
+              onClick={onRefine}
+              disabled={isProcessing || (!!residue && !residue.found)}
+              className="flex items-center px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title={residue && !residue.found ? 'No leftover marks detected' : 'Re-run with clean up prompt'}
+            >
+              {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+              Clean Marks
+            </button>
+          )}
           <button onClick={onDownload} className="flex items-center px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 transition-colors shadow-sm">
             <Download className="w-4 h-4 mr-2" />
             Download
           </button>
         </div>
       </div>
-      
-      <div className="flex-1 flex items-center justify-center p-8 overflow-hidden">
-        <div 
-          ref={containerRef}
-          className="relative max-w-full max-h-[80vh] aspect-auto shadow-2xl rounded-lg overflow-hidden cursor-col-resize select-none group"
-          onMouseDown={() => setIsDragging(true)}
-          onTouchStart={() => setIsDragging(true)}
-          onMouseMove={onMouseMove}
-          onTouchMove={onTouchMove}
-        >
-          {/* After Image (Background) */}
-          <img src={after} alt="After" className="block max-h-[80vh] w-auto object-contain" draggable={false} />
-          
-          {/* Before Image (Clipped) */}
-          <div 
-            className="absolute inset-0 overflow-hidden border-r-2 border-white"
-            style={{ width: `${position}%` }}
+
+      <div className="h-12 border-b flex items-center px-6 space-x-4 bg-white shrink-0">
+        <div className="flex bg-slate-100 rounded-lg p-0.5">
+          {COMPARE_MODES.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setMode(id)}
+              className={`flex items-center px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                mode === id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+              }`}
+            >
+              <Icon className="w-3.5 h-3.5 mr-1.5" />
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'heatmap' && (
+          <label className="flex items-center space-x-2 text-xs text-slate-500">
+            <span>Threshold</span>
+            <input type="range" min={1} max={128} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+            <span className="w-6">{threshold}</span>
+            {changedRatio !== null && (
+              <span className="text-slate-400">{(changedRatio * 100).toFixed(1)}% of pixels changed</span>
+            )}
+          </label>
+        )}
+        {mode === 'onion' && (
+          <label className="flex items-center space-x-2 text-xs text-slate-500">
+            <span className="uppercase">{beforeLabel}</span>
+            <input type="range" min={0} max={100} value={onionBlend} onChange={(e) => setOnionBlend(Number(e.target.value))} />
+            <span className="uppercase">{afterLabel}</span>
+          </label>
+        )}
+        {mode === 'side' && (
+          <button
+            onClick={() => setViewport(FIT_VIEWPORT)}
+            className="flex items-center text-xs font-medium text-slate-500 hover:text-slate-800"
+            title="Scroll to zoom, drag to pan"
           >
-            <img src={before} alt="Before" className="block max-h-[80vh] w-auto object-contain max-w-none" style={{ width: containerRef.current?.getBoundingClientRect().width }} draggable={false} />
+            <Maximize className="w-3.5 h-3.5 mr-1.5" />
+            Fit ({Math.round(viewport.scale * 100)}%)
+          </button>
+        )}
+
+        {annotations.length > 0 && (
+          <label className="flex items-center text-xs font-medium text-slate-500 cursor-pointer ml-auto">
+            <input type="checkbox" className="mr-2" checked={showAnnotations} onChange={(e) => setShowAnnotations(e.target.checked)} />
+            <Shapes className="w-3.5 h-3.5 mr-1.5" />
+            Show boxes
+          </label>
+        )}
+      </div>
+      
+      <div className="flex-1 flex overflow-hidden">
+        {mode === 'wipe' && (
+          <div className="flex-1 flex items-center justify-center p-8 overflow-hidden">
+            <div 
+              ref={containerRef}
+              className="relative max-w-full max-h-[80vh] aspect-auto shadow-2xl rounded-lg overflow-hidden cursor-col-resize select-none group"
+              onMouseDown={() => setIsDragging(true)}
+              onTouchStart={() => setIsDragging(true)}
+              onMouseMove={onMouseMove}
+              onTouchMove={onTouchMove}
+            >
+              {/* After Image (Background) */}
+              <img src={after} alt="After" className="block max-h-[80vh] w-auto object-contain" draggable={false} />
+              
+              {/* Before Image (Clipped) */}
+              <div 
+                className="absolute inset-0 overflow-hidden border-r-2 border-white"
+                style={{ width: `${position}%` }}
+              >
+                <img src={before} alt="Before" className="block max-h-[80vh] w-auto object-contain max-w-none" style={{ width: containerRef.current?.getBoundingClientRect().width }} draggable={false} />
+              </div>
+
+              {/* Leftover Marks (drawn over the edited side) */}
+              {residueOverlay}
+              {annotationOverlay}
+
+              {/* Slider Handle */}
+              <div 
+                className="absolute top-0 bottom-0 w-1 bg-white shadow-[0_0_10px_rgba(0,0,0,0.3)] flex items-center justify-center"
+                style={{ left: `${position}%`, transform: 'translateX(-50%)' }}
+              >
+                <div className="w-8 h-8 bg-white rounded-full shadow-lg flex items-center justify-center">
+                   <div className="w-1 h-4 bg-slate-300 rounded-full mx-0.5" />
+                   <div className="w-1 h-4 bg-slate-300 rounded-full mx-0.5" />
+                </div>
+              </div>
+              
+              {/* Labels */}
+              {labels}
+            </div>
           </div>
+        )}
 
-          {/* Slider Handle */}
-          <div 
-            className="absolute top-0 bottom-0 w-1 bg-white shadow-[0_0_10px_rgba(0,0,0,0.3)] flex items-center justify-center"
-            style={{ left: `${position}%`, transform: 'translateX(-50%)' }}
-          >
-            <div className="w-8 h-8 bg-white rounded-full shadow-lg flex items-center justify-center">
-               <div className="w-1 h-4 bg-slate-300 rounded-full mx-0.5" />
-               <div className="w-1 h-4 bg-slate-300 rounded-full mx-0.5" />
+        {mode === 'heatmap' && (
+          <div className="flex-1 flex items-center justify-center p-8 overflow-hidden">
+            <div className="relative max-w-full max-h-[80vh] shadow-2xl rounded-lg overflow-hidden bg-slate-900">
+              <canvas ref={heatmapRef} className="block max-w-full max-h-[80vh] w-auto" />
+              {!diffMap && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-300 min-w-[200px] min-h-[120px]">
+                  Comparing pixels...
+                </div>
+              )}
+              {residueOverlay}
+              {annotationOverlay}
             </div>
           </div>
-          
-          {/* Labels */}
-          <div className="absolute bottom-4 left-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none">ORIGINAL</div>
-          <div className="absolute bottom-4 right-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none">EDITED</div>
-        </div>
+        )}
+
+        {mode === 'onion' && (
+          <div className="flex-1 flex items-center justify-center p-8 overflow-hidden">
+            <div className="relative max-w-full max-h-[80vh] shadow-2xl rounded-lg overflow-hidden select-none">
+              <img src={after} alt="After" className="block max-h-[80vh] w-auto object-contain" draggable={false} />
+              <img
+                src={before}
+                alt="Before"
+                className="absolute inset-0 w-full h-full"
+                style={{ opacity: 1 - onionBlend / 100 }}
+                draggable={false}
+              />
+              {residueOverlay}
+              {annotationOverlay}
+              {labels}
+            </div>
+          </div>
+        )}
+
+        {mode === 'side' && (
+          <div ref={panesRef} className="flex-1 flex items-start justify-center p-8 space-x-4 overflow-auto">
+            {[{ src: before, label: beforeLabel }, { src: after, label: afterLabel }].map(({ src, label }, i) => (
+              <div
+                key={i}
+                data-pane
+                className="relative flex-1 max-w-[50%] overflow-hidden shadow-2xl rounded-lg bg-slate-200 cursor-grab active:cursor-grabbing select-none touch-none"
+                onPointerDown={onPanePointerDown}
+                onPointerMove={onPanePointerMove}
+                onPointerUp={onPanePointerUp}
+                onPointerCancel={onPanePointerUp}
+                onDoubleClick={() => setViewport(FIT_VIEWPORT)}
+              >
+                <div
+                  className="relative"
+                  style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})`, transformOrigin: '0 0' }}
+                >
+                  <img src={src} alt={label} className="block w-full h-auto" draggable={false} />
+                  {annotationOverlay}
+                </div>
+                <div className="absolute bottom-4 left-4 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded backdrop-blur-sm pointer-events-none uppercase">{label}</div>
+              </div>
+            ))}
+          </div>
+        )}
+        {aside}
       </div>
     </div>
   );
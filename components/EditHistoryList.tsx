@@ -0,0 +1,52 @@
+import React from 'react';
+import { Plus, Move, Scaling, Crosshair, Type, Palette, Trash2, ArrowUpDown, EyeOff, Copy, ImagePlus, Sparkles, Flag } from 'lucide-react';
+import { EditCommandKind, EditHistory } from '../types';
+
+interface EditHistoryListProps {
+  history: EditHistory;
+  // Jump so that this many commands are applied
+  onJump: (index: number) => void;
+}
+
+const KIND_ICONS: Record<EditCommandKind, React.ElementType> = {
+  add: Plus,
+  move: Move,
+  resize: Scaling,
+  retarget: Crosshair,
+  text: Type,
+  recolor: Palette,
+  delete: Trash2,
+  reorder: ArrowUpDown,
+  toggle: EyeOff,
+  duplicate: Copy,
+  reference: ImagePlus,
+  generate: Sparkles,
+};
+
+export const EditHistoryList: React.FC<EditHistoryListProps> = ({ history, onJump }) => {
+  const rows = [
+    { key: 'start', label: 'Start', icon: Flag, target: 0 },
+    ...history.commands.map((command, i) => ({ key: command.id, label: command.label, icon: KIND_ICONS[command.kind], target: i + 1 })),
+  ];
+
+  return (
+    <div className="space-y-0.5">
+      {rows.slice().reverse().map(({ key, label, icon: Icon, target }) => {
+        const isCurrent = target === history.index;
+        const isUndone = target > history.index;
+        return (
+          <button
+            key={key}
+            onClick={() => onJump(target)}
+            className={`w-full flex items-center px-2 py-1.5 text-xs rounded-md text-left ${
+              isCurrent ? 'bg-slate-900 text-white' : isUndone ? 'text-slate-300 hover:bg-slate-50' : 'text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5 mr-2 shrink-0" />
+            <span className="truncate">{label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,75 +1,528 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Loader2, Move, MousePointer2, Type, Square, Trash2, Undo2, Redo2, Download, Maximize2, X, Check } from 'lucide-react';
-import { Annotation, AnnotationColor, Tool, Point } from '../types';
-import { COLOR_MAP } from '../constants';
-import { getRelativePointerPosition } from '../utils/canvas';
+import { Loader2, Move, MousePointer2, Type, Square, Circle, Lasso, Brush, Trash2, Undo2, Redo2, Download, Maximize2, X, Check, History, Settings, FileText, Layers, Save, ZoomIn, ZoomOut, ListOrdered, List, BookMarked } from 'lucide-react';
+import { Annotation, AnnotationColor, Tool, Point, Rect, ResizeHandle, EditCommandKind, EditHistory, Snippet, ReferenceImage } from '../types';
+import { COLOR_MAP, ANNOTATION_COLORS, DEFAULT_BRUSH_SIZE, BRUSH_OPACITY, MAX_REFERENCE_IMAGES } from '../constants';
+import { getRelativePointerPosition, getAnnotationFontSize } from '../utils/canvas';
+import { EditHistoryList } from './EditHistoryList';
+import { AnnotationList } from './AnnotationList';
+import { SnippetTextarea } from './SnippetTextarea';
+import { ReferenceStrip } from './ReferenceStrip';
+import { getAnnotationNumbers, getEnabledAnnotations, countReferences } from '../utils/prompt';
+import {
+  getBounds, getUnionBounds, rectsIntersect, hitTestAnnotation, translateAnnotation, resizeAnnotation, resizeBounds,
+  getHandlePoint, RESIZE_HANDLES, toSvgPath, findCalloutTarget, resolveCalloutTarget, getLeaderLine
+} from '../utils/geometry';
+
+const TOOLBAR_TOOLS: { id: Tool; icon: React.ComponentType<{ className?: string }>; title: string }[] = [
+  { id: 'select', icon: MousePointer2, title: 'Select (V)' },
+  { id: 'rect', icon: Square, title: 'Rectangle (R)' },
+  { id: 'ellipse', icon: Circle, title: 'Ellipse (E)' },
+  { id: 'polygon', icon: Lasso, title: 'Polygon / Lasso (L): click points or drag freehand' },
+  { id: 'brush', icon: Brush, title: 'Brush (B)' },
+  { id: 'text', icon: Type, title: 'Callout note (T): drag from the region to where the note should go' },
+];
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 16;
+// Space kept around the image when it is smaller than the viewport
+const VIEWPORT_PADDING = 32;
+const MINIMAP_SIZE = 160;
+const MIN_ANNOTATION_SIZE = 10;
+// How far a duplicate lands from its original, in image pixels
+const DUPLICATE_OFFSET = 16;
+
+// `zoom` is screen pixels per image pixel; (x, y) is where the image's
+// top-left corner sits in the viewport
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+// Thumbnail of the whole image with the visible part outlined. Clicking or
+// dragging on it moves the view there.
+const Minimap: React.FC<{
+  imageSrc: string;
+  imageSize: Size;
+  viewportSize: Size;
+  view: ViewState;
+  onNavigate: (center: Point) => void;
+}> = ({ imageSrc, imageSize, viewportSize, view, onNavigate }) => {
+  const ratio = MINIMAP_SIZE / Math.max(imageSize.width, imageSize.height);
+  const left = Math.max(0, -view.x / view.zoom);
+  const top = Math.max(0, -view.y / view.zoom);
+  const right = Math.min(imageSize.width, (viewportSize.width - view.x) / view.zoom);
+  const bottom = Math.min(imageSize.height, (viewportSize.height - view.y) / view.zoom);
+
+  const navigate = (e: React.PointerEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - rect.left) / ratio, y: (e.clientY - rect.top) / ratio });
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 bg-white border border-slate-200 rounded-lg shadow-lg overflow-hidden cursor-pointer z-20"
+      style={{ width: imageSize.width * ratio, height: imageSize.height * ratio }}
+      onPointerDown={(e) => { e.stopPropagation(); e.currentTarget.setPointerCapture(e.pointerId); navigate(e); }}
+      onPointerMove={(e) => e.buttons === 1 && navigate(e)}
+    >
+      <img src={imageSrc} alt="" className="w-full h-full pointer-events-none" draggable={false} />
+      <div
+        className="absolute border-2 border-slate-900 bg-slate-900/10 pointer-events-none"
+        style={{
+          left: left * ratio,
+          top: top * ratio,
+          width: Math.max(0, right - left) * ratio,
+          height: Math.max(0, bottom - top) * ratio,
+        }}
+      />
+    </div>
+  );
+};
+
+// SVG outline for shapes that a plain box can't represent. For callouts this
+// is the leader arrow; `target` is where it resolves to.
+const ShapeOutline: React.FC<{ ann: Annotation; scale: number; target?: Point; isCircled?: boolean }> = ({ ann, scale, target, isCircled = true }) => {
+  const color = COLOR_MAP[ann.color];
+  switch (ann.shape) {
+    case 'rect':
+      return null;
+    case 'callout': {
+      const end = target || ann.target;
+      const [start] = getLeaderLine(ann, end);
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const head = 12;
+      const tip = { x: end.x * scale, y: end.y * scale };
+      return (
+        <g stroke={color} fill={color}>
+          <line x1={start.x * scale} y1={start.y * scale} x2={tip.x - Math.cos(angle) * head / 2} y2={tip.y - Math.sin(angle) * head / 2} strokeWidth={3} />
+          <polygon
+            points={[
+              [tip.x, tip.y],
+              [tip.x - head * Math.cos(angle - Math.PI / 7), tip.y - head * Math.sin(angle - Math.PI / 7)],
+              [tip.x - head * Math.cos(angle + Math.PI / 7), tip.y - head * Math.sin(angle + Math.PI / 7)],
+            ].map(p => p.join(',')).join(' ')}
+            strokeWidth={1}
+          />
+          {isCircled && <circle cx={tip.x} cy={tip.y} r={ann.targetRadius * scale} fill="none" strokeWidth={3} />}
+        </g>
+      );
+    }
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={(ann.x + ann.width / 2) * scale}
+          cy={(ann.y + ann.height / 2) * scale}
+          rx={(ann.width / 2) * scale}
+          ry={(ann.height / 2) * scale}
+          fill="none"
+          stroke={color}
+          strokeWidth={3}
+        />
+      );
+    case 'polygon':
+      return <path d={toSvgPath(ann, scale)} fill={color} fillOpacity={0.08} stroke={color} strokeWidth={3} strokeLinejoin="round" />;
+    case 'brush':
+      return (
+        <path
+          d={toSvgPath(ann, scale)}
+          fill="none"
+          stroke={color}
+          strokeOpacity={BRUSH_OPACITY}
+          strokeWidth={Math.max(1, ann.brushSize * scale)}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      );
+  }
+};
 
 interface EditorProps {
   imageSrc: string;
   annotations: Annotation[];
-  setAnnotations: React.Dispatch<React.SetStateAction<Annotation[]>>;
+  // Commits a finished edit as one undoable step
+  onEdit: (kind: EditCommandKind, next: Annotation[]) => void;
+  history: EditHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJumpHistory: (index: number) => void;
+  // Offered by typing / in a note
+  snippets: Snippet[];
+  // Reference images for the whole request
+  references: ReferenceImage[];
+  onChangeReferences: (references: ReferenceImage[]) => void;
   onGenerate: () => void;
+  onCancel: () => void;
   isProcessing: boolean;
   onClose: () => void;
+  onOpenHistory: () => void;
+  onOpenSettings: () => void;
+  onOpenLibrary: () => void;
+  onOpenPrompt: () => void;
+  onBatch: () => void;
+  onSaveProject: () => void;
 }
 
 export const Editor: React.FC<EditorProps> = ({ 
   imageSrc, 
-  annotations, 
-  setAnnotations,
+  annotations: committedAnnotations, 
+  onEdit,
+  history,
+  onUndo,
+  onRedo,
+  onJumpHistory,
+  snippets,
+  references,
+  onChangeReferences,
   onGenerate,
+  onCancel,
   isProcessing,
-  onClose
+  onClose,
+  onOpenHistory,
+  onOpenSettings,
+  onOpenLibrary,
+  onOpenPrompt,
+  onBatch,
+  onSaveProject
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // Viewport state. Annotations stay in image pixels; only rendering and
+  // pointer mapping go through the zoom.
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+  const [viewportSize, setViewportSize] = useState<Size>({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewState>({ zoom: 1, x: 0, y: 0 });
+  // While true the view refits whenever the viewport resizes
+  const [isFit, setIsFit] = useState(true);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [panStart, setPanStart] = useState<{ clientX: number; clientY: number; x: number; y: number } | null>(null);
   
   const [tool, setTool] = useState<Tool>('rect');
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [activeColor, setActiveColor] = useState<AnnotationColor>('red');
-  const [history, setHistory] = useState<Annotation[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [isHistoryListOpen, setIsHistoryListOpen] = useState(false);
+  const [isAnnotationListOpen, setIsAnnotationListOpen] = useState(true);
+  const annotationListRef = useRef<HTMLDivElement>(null);
+
+  // A drag in progress is shown instead of the committed annotations and
+  // only becomes a history step when the pointer is released. The ref
+  // always holds the latest preview, whatever render the handler came from.
+  const [preview, setPreviewState] = useState<Annotation[] | null>(null);
+  const previewRef = useRef<Annotation[] | null>(null);
+  const setPreview = (next: Annotation[] | null) => {
+    previewRef.current = next;
+    setPreviewState(next);
+  };
+  const annotations = preview || committedAnnotations;
+  const numbers = getAnnotationNumbers(annotations);
+  
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
   
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
-  const [currentRect, setCurrentRect] = useState<Partial<Annotation> | null>(null);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  // Vertices of a click-by-click polygon that hasn't been closed yet
+  const [polygonPoints, setPolygonPoints] = useState<Point[] | null>(null);
+  const [pointerPos, setPointerPos] = useState<Point | null>(null);
   
   // Dragging/Resizing state
-  const [dragMode, setDragMode] = useState<'move' | 'resize-se' | null>(null);
-  const [dragOffset, setDragOffset] = useState<Point | null>(null);
-
-  // Helper to sync history
-  const updateAnnotationsWithHistory = (newAnnotations: Annotation[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newAnnotations);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-    setAnnotations(newAnnotations);
-  };
+  const [dragMode, setDragMode] = useState<'move' | 'resize' | 'move-target' | 'marquee' | null>(null);
+  const [resizeHandle, setResizeHandle] = useState<ResizeHandle | null>(null);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  // The dragged annotations as they were when the drag started
+  const [dragOrigin, setDragOrigin] = useState<Annotation[] | null>(null);
+  const [marquee, setMarquee] = useState<Rect | null>(null);
 
   const undo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setAnnotations(history[historyIndex - 1]);
-      setSelectedId(null);
-    }
+    onUndo();
+    setSelectedIds([]);
   };
 
   const redo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setAnnotations(history[historyIndex + 1]);
-      setSelectedId(null);
-    }
+    onRedo();
+    setSelectedIds([]);
+  };
+
+  const deleteAnnotations = (ids: string[]) => {
+    if (ids.length === 0) return;
+    const next = committedAnnotations
+      .filter(a => !ids.includes(a.id))
+      // Callouts pointing at a deleted annotation keep their target point
+      .map(a => a.shape === 'callout' && a.targetId && ids.includes(a.targetId) ? { ...a, targetId: undefined } : a);
+    onEdit('delete', next);
+    setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
   };
 
-  const deleteSelected = () => {
-    if (selectedId) {
-      const next = annotations.filter(a => a.id !== selectedId);
-      updateAnnotationsWithHistory(next);
-      setSelectedId(null);
+  const deleteSelected = () => deleteAnnotations(selectedIds);
+
+  const toggleAnnotation = (id: string) => {
+    onEdit('toggle', committedAnnotations.map(a => a.id === id ? { ...a, disabled: !a.disabled } : a));
+  };
+
+  // Each copy goes right after its original, nudged so both stay visible
+  const duplicateAnnotations = (ids: string[]) => {
+    const originals = committedAnnotations.filter(a => ids.includes(a.id));
+    if (originals.length === 0) return;
+    const offset = clampDelta(originals, DUPLICATE_OFFSET, DUPLICATE_OFFSET);
+    const copies: Annotation[] = [];
+    const next = committedAnnotations.flatMap(a => {
+      if (!ids.includes(a.id)) return [a];
+      const copy = { ...moveAnnotation(a, offset.x, offset.y), id: Math.random().toString(36).substr(2, 9) };
+      copies.push(copy);
+      return [a, copy];
+    });
+    onEdit('duplicate', next);
+    setSelectedIds(copies.map(a => a.id));
+  };
+
+  // Order drives the numbering in the image and the prompt
+  const reorderAnnotation = (from: number, to: number) => {
+    const next = committedAnnotations.slice();
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onEdit('reorder', next);
+  };
+
+  const selectFromList = (id: string, additive: boolean) => {
+    setSelectedIds(prev => additive
+      ? (prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id])
+      : [id]);
+    changeTool('select');
+  };
+
+  const addAnnotation = (ann: Annotation) => {
+    onEdit('add', [...committedAnnotations, ann]);
+    setSelectedIds([ann.id]);
+    // Switch to select mode automatically to allow typing
+    setTool('select');
+  };
+
+  const finishPolygon = (points: Point[]) => {
+    setPolygonPoints(null);
+    if (points.length < 3) return;
+    addAnnotation({
+      id: Math.random().toString(36).substr(2, 9),
+      shape: 'polygon',
+      points,
+      text: '',
+      color: activeColor
+    });
+  };
+
+  const changeTool = (next: Tool) => {
+    setPolygonPoints(null);
+    setTool(next);
+  };
+
+  // Centers the image when it fits, otherwise keeps it from leaving the viewport
+  const clampView = useCallback((next: ViewState): ViewState => {
+    const viewport = viewportRef.current;
+    if (!imageSize || !viewport) return next;
+    const clampAxis = (offset: number, content: number, available: number) =>
+      content + VIEWPORT_PADDING * 2 <= available
+        ? (available - content) / 2
+        : Math.min(VIEWPORT_PADDING, Math.max(available - content - VIEWPORT_PADDING, offset));
+    return {
+      zoom: next.zoom,
+      x: clampAxis(next.x, imageSize.width * next.zoom, viewport.clientWidth),
+      y: clampAxis(next.y, imageSize.height * next.zoom, viewport.clientHeight),
+    };
+  }, [imageSize]);
+
+  const getFitZoom = useCallback(() => {
+    const viewport = viewportRef.current;
+    if (!imageSize || !viewport) return 1;
+    return Math.min(
+      1,
+      (viewport.clientWidth - VIEWPORT_PADDING * 2) / imageSize.width,
+      (viewport.clientHeight - VIEWPORT_PADDING * 2) / imageSize.height
+    );
+  }, [imageSize]);
+
+  const fitToViewport = useCallback(() => {
+    setIsFit(true);
+    setView(clampView({ zoom: getFitZoom(), x: 0, y: 0 }));
+  }, [clampView, getFitZoom]);
+
+  // Zooms by `factor` keeping `anchor` (viewport pixels, default: center) in place
+  const zoomBy = useCallback((factor: number, anchor?: Point) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const a = anchor || { x: viewport.clientWidth / 2, y: viewport.clientHeight / 2 };
+    setIsFit(false);
+    setView(prev => {
+      const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom * factor));
+      const ratio = zoom / prev.zoom;
+      return clampView({ zoom, x: a.x - (a.x - prev.x) * ratio, y: a.y - (a.y - prev.y) * ratio });
+    });
+  }, [clampView]);
+
+  const centerOn = (p: Point) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    setIsFit(false);
+    setView(prev => clampView({
+      zoom: prev.zoom,
+      x: viewport.clientWidth / 2 - p.x * prev.zoom,
+      y: viewport.clientHeight / 2 - p.y * prev.zoom,
+    }));
+  };
+
+  useEffect(() => {
+    if (imageSize) fitToViewport();
+  }, [imageSize]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+      if (isFit) fitToViewport();
+      else setView(prev => clampView(prev));
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [isFit, fitToViewport, clampView]);
+
+  // Wheel and trackpad pinch (a wheel event with ctrlKey) zoom around the
+  // cursor. Needs a non-passive listener to stop the page from zooming.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const speed = e.ctrlKey ? 0.01 : 0.0015;
+      zoomBy(Math.exp(-e.deltaY * speed), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    viewport.addEventListener('wheel', onWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', onWheel);
+  }, [zoomBy]);
+
+  // Space + drag (or the middle button) pans
+  useEffect(() => {
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e)) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const up = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!panStart) return;
+    const move = (e: PointerEvent) => {
+      setIsFit(false);
+      setView(prev => clampView({ zoom: prev.zoom, x: panStart.x + e.clientX - panStart.clientX, y: panStart.y + e.clientY - panStart.clientY }));
+    };
+    const up = () => setPanStart(null);
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+    window.addEventListener('pointercancel', up);
+    return () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+      window.removeEventListener('pointercancel', up);
+    };
+  }, [panStart, clampView]);
+
+  // Touch points currently down on the viewport, in client pixels
+  const touches = useRef(new Map<number, Point>());
+  const pinch = useRef<{ distance: number; mid: Point } | null>(null);
+
+  const getPinch = () => {
+    const [a, b]: Point[] = Array.from(touches.current.values());
+    return { distance: Math.hypot(a.x - b.x, a.y - b.y), mid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 } };
+  };
+
+  // Viewport-level gestures run in the capture phase so the drawing
+  // handlers never see them: space/middle-button pan and two-finger pinch
+  const handleViewportPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'touch') {
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.current.size === 2) {
+        // The first finger may have started a stroke; a pinch replaces it
+        cancelGesture();
+        pinch.current = getPinch();
+      }
+      if (touches.current.size >= 2) {
+        e.stopPropagation();
+        return;
+      }
     }
+    if (!isSpaceHeld && e.button !== 1) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPanStart({ clientX: e.clientX, clientY: e.clientY, x: view.x, y: view.y });
+  };
+
+  const handleViewportPointerMove = (e: React.PointerEvent) => {
+    if (e.pointerType !== 'touch' || !touches.current.has(e.pointerId)) return;
+    touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (!pinch.current || touches.current.size < 2) return;
+    e.stopPropagation();
+
+    const next = getPinch();
+    const rect = viewportRef.current!.getBoundingClientRect();
+    const dx = next.mid.x - pinch.current.mid.x;
+    const dy = next.mid.y - pinch.current.mid.y;
+    setIsFit(false);
+    setView(prev => {
+      const zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, prev.zoom * next.distance / pinch.current!.distance));
+      const ratio = zoom / prev.zoom;
+      const anchor = { x: next.mid.x - rect.left, y: next.mid.y - rect.top };
+      return clampView({ zoom, x: anchor.x - (anchor.x - prev.x - dx) * ratio, y: anchor.y - (anchor.y - prev.y - dy) * ratio });
+    });
+    pinch.current = next;
+  };
+
+  const handleViewportPointerUp = (e: React.PointerEvent) => {
+    if (e.pointerType !== 'touch') return;
+    touches.current.delete(e.pointerId);
+    if (touches.current.size < 2) pinch.current = null;
+  };
+
+  const clampPoint = (p: Point): Point => imageSize
+    ? { x: Math.max(0, Math.min(imageSize.width, p.x)), y: Math.max(0, Math.min(imageSize.height, p.y)) }
+    : p;
+
+  // Limits a group move so every selected annotation stays on the image
+  const clampDelta = (group: Annotation[], dx: number, dy: number): Point => {
+    if (!imageSize || group.length === 0) return { x: dx, y: dy };
+    const bounds = getUnionBounds(group);
+    return {
+      x: Math.max(-bounds.x, Math.min(imageSize.width - bounds.x - bounds.width, dx)),
+      y: Math.max(-bounds.y, Math.min(imageSize.height - bounds.y - bounds.height, dy)),
+    };
+  };
+
+  // Moving a callout moves its note; the arrow keeps pointing at the same spot
+  const moveAnnotation = (ann: Annotation, dx: number, dy: number): Annotation =>
+    ann.shape === 'callout' ? { ...ann, x: ann.x + dx, y: ann.y + dy } : translateAnnotation(ann, dx, dy);
+
+  const nudgeSelected = (dx: number, dy: number) => {
+    const selected = annotations.filter(a => selectedIds.includes(a.id));
+    if (selected.length === 0) return;
+    const delta = clampDelta(selected, dx, dy);
+    if (delta.x === 0 && delta.y === 0) return;
+    onEdit('move', annotations.map(a => selectedIds.includes(a.id) ? moveAnnotation(a, delta.x, delta.y) : a));
   };
 
   // Key bindings
@@ -77,10 +530,38 @@ export const Editor: React.FC<EditorProps> = ({
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
+      const step = e.shiftKey ? 10 : 1;
       switch(e.key.toLowerCase()) {
-        case 'v': setTool('select'); break;
-        case 'r': setTool('rect'); break;
-        case 't': setTool('text'); break; // Just selects the tool, doesn't auto-add
+        case 'v': changeTool('select'); break;
+        case 'r': changeTool('rect'); break;
+        case 'e': changeTool('ellipse'); break;
+        case 'l': changeTool('polygon'); break;
+        case 'b': changeTool('brush'); break;
+        case 't': changeTool('text'); break;
+        case '0': fitToViewport(); break;
+        case '1': zoomBy(1 / view.zoom); break;
+        case '=':
+        case '+': zoomBy(1.25); break;
+        case '-': zoomBy(0.8); break;
+        case 'arrowleft': e.preventDefault(); nudgeSelected(-step, 0); break;
+        case 'arrowright': e.preventDefault(); nudgeSelected(step, 0); break;
+        case 'arrowup': e.preventDefault(); nudgeSelected(0, -step); break;
+        case 'arrowdown': e.preventDefault(); nudgeSelected(0, step); break;
+        case 'a':
+          if (e.metaKey || e.ctrlKey) {
+            e.preventDefault();
+            setSelectedIds(annotations.map(a => a.id));
+            changeTool('select');
+          }
+          break;
+        case 'd':
+          if (e.metaKey || e.ctrlKey) {
+            e.preventDefault();
+            duplicateAnnotations(selectedIds);
+          }
+          break;
+        case 'enter': if (polygonPoints) finishPolygon(polygonPoints); break;
+        case 'escape': setPolygonPoints(null); setSelectedIds([]); break;
         case 'delete':
         case 'backspace': deleteSelected(); break;
         case 'z': 
@@ -91,124 +572,256 @@ export const Editor: React.FC<EditorProps> = ({
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedId, annotations, historyIndex]);
+  }, [selectedIds, annotations, history, polygonPoints, activeColor, view.zoom, zoomBy, fitToViewport, imageSize]);
+
+  // Screen pixels per image pixel
+  const getScale = () => view.zoom;
 
-  // Scale calculations
-  const getScale = () => {
-    if (!imgRef.current || !containerRef.current) return 1;
-    return imgRef.current.width / imgRef.current.naturalWidth;
+  const toImagePoint = (e: React.PointerEvent): Point => {
+    const scale = getScale();
+    const { x, y } = getRelativePointerPosition(e, containerRef.current!);
+    return { x: x / scale, y: y / scale };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!containerRef.current || !imgRef.current) return;
+  // Fingers are less precise than a mouse or stylus
+  const getHitSlop = (e: React.PointerEvent) => (e.pointerType === 'touch' ? 16 : 6) / getScale();
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!containerRef.current || !imgRef.current || e.button !== 0) return;
+    // Let the note's textarea handle its own caret and selection
+    if (e.target instanceof HTMLTextAreaElement) return;
+    // Keep receiving moves when the pointer leaves the image
+    e.currentTarget.setPointerCapture(e.pointerId);
     
     const scale = getScale();
-    const { x, y } = getRelativePointerPosition(e, containerRef.current);
-    const imgX = x / scale;
-    const imgY = y / scale;
+    const point = clampPoint(toImagePoint(e));
+    const { x: imgX, y: imgY } = point;
+    const slop = getHitSlop(e);
 
     // Hit detection for selection
     if (tool === 'select') {
-      // Check resizing handle first (bottom-right of selected)
-      if (selectedId) {
-        const selected = annotations.find(a => a.id === selectedId);
-        if (selected) {
-          const handleSize = 10 / scale;
-          const right = selected.x + selected.width;
-          const bottom = selected.y + selected.height;
-          if (Math.abs(imgX - right) < handleSize && Math.abs(imgY - bottom) < handleSize) {
-            setDragMode('resize-se');
-            setIsDrawing(true); // Reuse drawing flag for global move listeners
+      const selected = annotations.filter(a => selectedIds.includes(a.id));
+
+      // Handles of a single selection come first
+      if (selected.length === 1) {
+        const ann = selected[0];
+        const bounds = getBounds(ann);
+        const handle = RESIZE_HANDLES.find(h => {
+          const p = getHandlePoint(bounds, h);
+          return Math.abs(imgX - p.x) < slop && Math.abs(imgY - p.y) < slop;
+        });
+        if (handle) {
+          setDragMode('resize');
+          setResizeHandle(handle);
+          setDragOrigin([ann]);
+          setIsDrawing(true); // Reuse drawing flag for global move listeners
+          return;
+        }
+        if (ann.shape === 'callout') {
+          const target = resolveCalloutTarget(ann, annotations);
+          if (Math.hypot(imgX - target.x, imgY - target.y) < slop) {
+            setDragMode('move-target');
+            setDragOrigin([ann]);
+            setIsDrawing(true);
             return;
           }
         }
       }
 
       // Check bodies
-      const clicked = annotations.slice().reverse().find(a => 
-        imgX >= a.x && imgX <= a.x + a.width &&
-        imgY >= a.y && imgY <= a.y + a.height
-      );
+      const clicked = annotations.slice().reverse().find(a => hitTestAnnotation(a, point, slop * 2 / 3));
 
-      if (clicked) {
-        setSelectedId(clicked.id);
+      if (clicked && e.shiftKey) {
+        // Shift-click toggles membership without starting a drag
+        setSelectedIds(prev => prev.includes(clicked.id) ? prev.filter(id => id !== clicked.id) : [...prev, clicked.id]);
+      } else if (clicked) {
+        // Dragging a member of the selection moves the whole group
+        const group = selectedIds.includes(clicked.id) ? selectedIds : [clicked.id];
+        setSelectedIds(group);
         setDragMode('move');
-        setDragOffset({ x: imgX - clicked.x, y: imgY - clicked.y });
+        setDragStart(point);
+        setDragOrigin(annotations.filter(a => group.includes(a.id)));
         setIsDrawing(true);
       } else {
-        setSelectedId(null);
+        // Empty space: rubber-band selection
+        if (!e.shiftKey) setSelectedIds([]);
+        setDragMode('marquee');
+        setStartPoint(point);
+        setMarquee({ x: imgX, y: imgY, width: 0, height: 0 });
+        setIsDrawing(true);
+      }
+    } else if (tool === 'rect' || tool === 'ellipse') {
+      setSelectedIds([]);
+      setIsDrawing(true);
+      setStartPoint(point);
+      setDraft({ id: 'draft', shape: tool, x: imgX, y: imgY, width: 0, height: 0, text: '', color: activeColor });
+    } else if (tool === 'brush') {
+      setSelectedIds([]);
+      setIsDrawing(true);
+      setDraft({ id: 'draft', shape: 'brush', points: [point], brushSize, text: '', color: activeColor });
+    } else if (tool === 'text') {
+      // Press on the region, drag to where the note should go
+      const fontSize = getAnnotationFontSize(imgRef.current.naturalWidth);
+      const region = annotations.slice().reverse().find(a => a.shape !== 'callout' && hitTestAnnotation(a, point));
+      setSelectedIds([]);
+      setIsDrawing(true);
+      setStartPoint(point);
+      setDraft({
+        id: 'draft',
+        shape: 'callout',
+        x: imgX,
+        y: imgY,
+        width: fontSize * 12,
+        height: fontSize * 2.6,
+        target: point,
+        targetRadius: fontSize * 1.2,
+        targetId: region?.id,
+        text: '',
+        color: activeColor
+      });
+    } else if (tool === 'polygon') {
+      setSelectedIds([]);
+      if (polygonPoints) {
+        // Clicking the first vertex closes the polygon
+        const first = polygonPoints[0];
+        if (polygonPoints.length >= 3 && Math.hypot(imgX - first.x, imgY - first.y) < slop * 4 / 3) {
+          finishPolygon(polygonPoints);
+        } else {
+          // Ignore repeated clicks on the same spot (e.g. a double-click)
+          const last = polygonPoints[polygonPoints.length - 1];
+          if (Math.hypot(imgX - last.x, imgY - last.y) >= 3 / scale) setPolygonPoints([...polygonPoints, point]);
+        }
+        return;
       }
-    } else if (tool === 'rect') {
-      setSelectedId(null);
+      // Dragging draws a freehand lasso; a plain click starts a polygon
       setIsDrawing(true);
-      setStartPoint({ x: imgX, y: imgY });
-      setCurrentRect({ x: imgX, y: imgY, width: 0, height: 0 });
+      setStartPoint(point);
+      setDraft({ id: 'draft', shape: 'polygon', points: [point], text: '', color: activeColor });
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || !containerRef.current || !imgRef.current) return;
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!containerRef.current || !imgRef.current) return;
 
     const scale = getScale();
-    const { x, y } = getRelativePointerPosition(e, containerRef.current);
-    const imgX = x / scale;
-    const imgY = y / scale;
+    const point = clampPoint(toImagePoint(e));
+    const { x: imgX, y: imgY } = point;
+
+    if (polygonPoints) setPointerPos(point);
+    if (!isDrawing) return;
 
-    if (tool === 'rect' && startPoint) {
+    if ((tool === 'rect' || tool === 'ellipse') && startPoint && draft && (draft.shape === 'rect' || draft.shape === 'ellipse')) {
       const width = imgX - startPoint.x;
       const height = imgY - startPoint.y;
-      setCurrentRect({
+      setDraft({
+        ...draft,
         x: width > 0 ? startPoint.x : imgX,
         y: height > 0 ? startPoint.y : imgY,
         width: Math.abs(width),
         height: Math.abs(height)
       });
-    } else if (tool === 'select' && selectedId) {
-      if (dragMode === 'move' && dragOffset) {
-        const newX = imgX - dragOffset.x;
-        const newY = imgY - dragOffset.y;
-        setAnnotations(prev => prev.map(a => a.id === selectedId ? { ...a, x: newX, y: newY } : a));
-      } else if (dragMode === 'resize-se') {
-        const selected = annotations.find(a => a.id === selectedId);
-        if (selected) {
-          const newW = Math.max(10, imgX - selected.x);
-          const newH = Math.max(10, imgY - selected.y);
-          setAnnotations(prev => prev.map(a => a.id === selectedId ? { ...a, width: newW, height: newH } : a));
-        }
+    } else if (tool === 'text' && draft && draft.shape === 'callout') {
+      setDraft({ ...draft, x: imgX, y: imgY });
+    } else if ((tool === 'brush' || tool === 'polygon') && draft && (draft.shape === 'brush' || draft.shape === 'polygon')) {
+      // Skip points closer than a few screen pixels to keep paths small
+      const last = draft.points[draft.points.length - 1];
+      if (Math.hypot(imgX - last.x, imgY - last.y) >= 3 / scale) {
+        setDraft({ ...draft, points: [...draft.points, point] });
+      }
+    } else if (tool === 'select' && dragMode === 'marquee' && startPoint) {
+      setMarquee({
+        x: Math.min(startPoint.x, imgX),
+        y: Math.min(startPoint.y, imgY),
+        width: Math.abs(imgX - startPoint.x),
+        height: Math.abs(imgY - startPoint.y),
+      });
+    } else if (tool === 'select' && dragOrigin) {
+      if (dragMode === 'move' && dragStart) {
+        const delta = clampDelta(dragOrigin, imgX - dragStart.x, imgY - dragStart.y);
+        const moved = new Map(dragOrigin.map(a => [a.id, moveAnnotation(a, delta.x, delta.y)]));
+        setPreview(committedAnnotations.map(a => moved.get(a.id) || a));
+      } else if (dragMode === 'resize' && resizeHandle) {
+        const origin = dragOrigin[0];
+        const resized = resizeAnnotation(origin, resizeBounds(getBounds(origin), resizeHandle, point, MIN_ANNOTATION_SIZE));
+        setPreview(committedAnnotations.map(a => a.id === origin.id ? resized : a));
+      } else if (dragMode === 'move-target' && dragOrigin[0].shape === 'callout') {
+        const origin = dragOrigin[0];
+        const region = annotations.slice().reverse().find(a => a.shape !== 'callout' && hitTestAnnotation(a, point));
+        const retargeted = { ...origin, target: point, targetId: region?.id };
+        setPreview(committedAnnotations.map(a => a.id === origin.id ? retargeted : a));
       }
     }
   };
 
-  const handleMouseUp = () => {
-    if (isDrawing) {
-      if (tool === 'rect' && currentRect && currentRect.width && currentRect.width > 5) {
-        const newId = Math.random().toString(36).substr(2, 9);
-        const newAnn: Annotation = {
-          id: newId,
-          x: currentRect.x!,
-          y: currentRect.y!,
-          width: currentRect.width!,
-          height: currentRect.height!,
-          text: '',
-          color: activeColor
-        };
-        updateAnnotationsWithHistory([...annotations, newAnn]);
-        setSelectedId(newId);
-        // Switch to select mode automatically to allow typing
-        setTool('select');
-      } else if (dragMode) {
-        // Commit drag to history
-        updateAnnotationsWithHistory(annotations);
-      }
-    }
+  const resetGesture = () => {
     setIsDrawing(false);
     setStartPoint(null);
-    setCurrentRect(null);
+    setDraft(null);
     setDragMode(null);
+    setResizeHandle(null);
+    setDragStart(null);
+    setDragOrigin(null);
+    setMarquee(null);
+    setPreview(null);
+  };
+
+  // Abandons the current stroke or drag without committing anything
+  const cancelGesture = resetGesture;
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (isDrawing) {
+      const newId = Math.random().toString(36).substr(2, 9);
+      if (draft && (draft.shape === 'rect' || draft.shape === 'ellipse')) {
+        if (draft.width > 5) addAnnotation({ ...draft, id: newId });
+      } else if (draft && draft.shape === 'callout' && imgRef.current) {
+        const target = draft.target;
+        let { x, y } = draft;
+        // A plain click puts the note up and to the right of the target
+        if (Math.hypot(x - target.x, y - target.y) < 5 / getScale()) {
+          x = target.x + draft.targetRadius * 2;
+          y = target.y - draft.targetRadius * 2 - draft.height;
+        }
+        x = Math.max(0, Math.min(x, imgRef.current.naturalWidth - draft.width));
+        y = Math.max(0, Math.min(y, imgRef.current.naturalHeight - draft.height));
+        addAnnotation({ ...draft, id: newId, x, y });
+      } else if (draft && draft.shape === 'brush') {
+        addAnnotation({ ...draft, id: newId });
+      } else if (draft && draft.shape === 'polygon') {
+        const bounds = getBounds(draft);
+        if (draft.points.length >= 3 && Math.max(bounds.width, bounds.height) > 5) {
+          addAnnotation({ ...draft, id: newId });
+        } else if (startPoint) {
+          setPolygonPoints([startPoint]);
+        }
+      } else if (dragMode === 'marquee' && marquee) {
+        const inside = annotations.filter(a => rectsIntersect(getBounds(a), marquee)).map(a => a.id);
+        if (marquee.width > 0 || marquee.height > 0) {
+          setSelectedIds(prev => e.shiftKey ? Array.from(new Set([...prev, ...inside])) : inside);
+        }
+      } else if (dragMode && previewRef.current) {
+        onEdit(dragMode === 'resize' ? 'resize' : dragMode === 'move-target' ? 'retarget' : 'move', previewRef.current);
+      }
+    }
+    resetGesture();
   };
 
+  // Every keystroke is committed; the history merges a burst of typing
+  // into one step
   const handleTextChange = (id: string, text: string) => {
-    setAnnotations(prev => prev.map(a => a.id === id ? { ...a, text } : a));
+    onEdit('text', committedAnnotations.map(a => a.id === id ? { ...a, text } : a));
+  };
+
+  const handleReferencesChange = (id: string, next: ReferenceImage[]) => {
+    onEdit('reference', committedAnnotations.map(a => a.id === id ? { ...a, references: next } : a));
+  };
+
+  const remainingReferences = MAX_REFERENCE_IMAGES - countReferences(getEnabledAnnotations(committedAnnotations), references);
+
+  const pickColor = (color: AnnotationColor) => {
+    setActiveColor(color);
+    if (selectedIds.length > 0) {
+      onEdit('recolor', committedAnnotations.map(a => selectedIds.includes(a.id) ? { ...a, color } : a));
+    }
   };
 
   // Render helpers
@@ -224,29 +837,39 @@ export const Editor: React.FC<EditorProps> = ({
            </button>
            <div className="h-6 w-px bg-slate-200 mx-2" />
            <div className="flex bg-slate-100 rounded-lg p-1">
-             <button 
-               onClick={() => setTool('select')}
-               className={`p-2 rounded ${tool === 'select' ? 'bg-white shadow text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
-               title="Select (V)"
-             >
-               <MousePointer2 className="w-5 h-5" />
-             </button>
-             <button 
-               onClick={() => setTool('rect')}
-               className={`p-2 rounded ${tool === 'rect' ? 'bg-white shadow text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
-               title="Rectangle (R)"
-             >
-               <Square className="w-5 h-5" />
-             </button>
+             {TOOLBAR_TOOLS.map(({ id, icon: Icon, title }) => (
+               <button 
+                 key={id}
+                 onClick={() => changeTool(id)}
+                 className={`p-2 rounded ${tool === id ? 'bg-white shadow text-slate-900' : 'text-slate-500 hover:text-slate-700'}`}
+                 title={title}
+               >
+                 <Icon className="w-5 h-5" />
+               </button>
+             ))}
            </div>
+
+           {tool === 'brush' && (
+             <label className="flex items-center space-x-2 pl-2 text-xs text-slate-500" title="Brush size (image pixels)">
+               <input
+                 type="range"
+                 min={4}
+                 max={160}
+                 value={brushSize}
+                 onChange={(e) => setBrushSize(Number(e.target.value))}
+                 className="w-24"
+               />
+               <span className="w-10 tabular-nums">{brushSize}px</span>
+             </label>
+           )}
            
            <div className="h-6 w-px bg-slate-200 mx-2" />
            
            <div className="flex items-center space-x-1">
-              {(['red', 'yellow', 'cyan'] as AnnotationColor[]).map(c => (
+              {ANNOTATION_COLORS.map(c => (
                 <button
                   key={c}
-                  onClick={() => setActiveColor(c)}
+                  onClick={() => pickColor(c)}
                   className={`w-6 h-6 rounded-full border-2 ${activeColor === c ? 'border-slate-900' : 'border-transparent'}`}
                   style={{ backgroundColor: COLOR_MAP[c] }}
                   title={`${c.charAt(0).toUpperCase() + c.slice(1)} Annotations`}
@@ -256,21 +879,70 @@ export const Editor: React.FC<EditorProps> = ({
 
            <div className="h-6 w-px bg-slate-200 mx-2" />
 
-           <button onClick={undo} disabled={historyIndex === 0} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30">
+           <button onClick={undo} disabled={history.index === 0} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30">
              <Undo2 className="w-5 h-5" />
            </button>
-           <button onClick={redo} disabled={historyIndex === history.length - 1} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30">
+           <button onClick={redo} disabled={history.index === history.commands.length} className="p-2 text-slate-500 hover:text-slate-800 disabled:opacity-30">
              <Redo2 className="w-5 h-5" />
            </button>
-           <button onClick={deleteSelected} disabled={!selectedId} className="p-2 text-red-500 hover:bg-red-50 rounded disabled:opacity-30">
+           <button onClick={deleteSelected} disabled={selectedIds.length === 0} className="p-2 text-red-500 hover:bg-red-50 rounded disabled:opacity-30">
              <Trash2 className="w-5 h-5" />
            </button>
+           <button
+             onClick={() => setIsAnnotationListOpen(!isAnnotationListOpen)}
+             className={`p-2 rounded ${isAnnotationListOpen ? 'bg-slate-100 text-slate-900' : 'text-slate-500 hover:text-slate-800'}`}
+             title="Annotations"
+           >
+             <List className="w-5 h-5" />
+           </button>
+           <button
+             onClick={() => setIsHistoryListOpen(!isHistoryListOpen)}
+             className={`p-2 rounded ${isHistoryListOpen ? 'bg-slate-100 text-slate-900' : 'text-slate-500 hover:text-slate-800'}`}
+             title="Undo history"
+           >
+             <ListOrdered className="w-5 h-5" />
+           </button>
         </div>
 
         <div className="flex items-center space-x-4">
+           <button onClick={onOpenHistory} className="p-2 text-slate-500 hover:text-slate-800" title="History">
+             <History className="w-5 h-5" />
+           </button>
+           <button onClick={onSaveProject} className="p-2 text-slate-500 hover:text-slate-800" title="Save project (.nbproj)">
+             <Save className="w-5 h-5" />
+           </button>
+           <button onClick={onOpenLibrary} className="p-2 text-slate-500 hover:text-slate-800" title="Snippets and prompt templates">
+             <BookMarked className="w-5 h-5" />
+           </button>
+           <button onClick={onOpenSettings} className="p-2 text-slate-500 hover:text-slate-800" title="Settings">
+             <Settings className="w-5 h-5" />
+           </button>
+           <button
+             onClick={onBatch}
+             disabled={numbers.size === 0}
+             className="flex items-center px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+             title="Apply these annotations to more images"
+           >
+             <Layers className="w-4 h-4 mr-1.5" />
+             Batch
+           </button>
+           <button
+             onClick={onOpenPrompt}
+             disabled={numbers.size === 0}
+             className="flex items-center px-3 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg disabled:opacity-40"
+             title="Preview and edit the prompt"
+           >
+             <FileText className="w-4 h-4 mr-1.5" />
+             Prompt
+           </button>
+           {isProcessing && (
+             <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-red-500 hover:bg-red-50 rounded-full">
+               Cancel
+             </button>
+           )}
            <button 
              onClick={onGenerate}
-             disabled={isProcessing || annotations.length === 0}
+             disabled={isProcessing || numbers.size === 0}
              className="flex items-center space-x-2 bg-slate-900 text-white px-6 py-2 rounded-full hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
            >
              {isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : <span className="text-lg">✨</span>}
@@ -279,66 +951,165 @@ export const Editor: React.FC<EditorProps> = ({
         </div>
       </div>
 
+      <div className="flex-1 flex overflow-hidden">
       {/* Canvas Area */}
-      <div className="flex-1 bg-slate-50 overflow-auto flex items-center justify-center p-8 relative">
+      <div
+        ref={viewportRef}
+        className="flex-1 bg-slate-50 overflow-hidden relative touch-none"
+        style={{ cursor: panStart ? 'grabbing' : isSpaceHeld ? 'grab' : undefined }}
+        onPointerDownCapture={handleViewportPointerDown}
+        onPointerMoveCapture={handleViewportPointerMove}
+        onPointerUpCapture={handleViewportPointerUp}
+        onPointerCancelCapture={handleViewportPointerUp}
+      >
         <div 
           ref={containerRef}
-          className="relative shadow-2xl select-none"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          className={`absolute shadow-2xl select-none ${isSpaceHeld ? 'pointer-events-none' : ''}`}
+          style={imageSize ? {
+            left: view.x,
+            top: view.y,
+            width: imageSize.width * view.zoom,
+            height: imageSize.height * view.zoom,
+          } : { visibility: 'hidden' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={cancelGesture}
+          onDoubleClick={() => polygonPoints && finishPolygon(polygonPoints)}
         >
           <img 
             ref={imgRef}
             src={imageSrc} 
             alt="Editor target" 
-            className="max-w-full max-h-[80vh] block pointer-events-none" 
+            className="w-full h-full block pointer-events-none" 
+            // Show individual pixels when zoomed in for precise boxes
+            style={{ imageRendering: view.zoom >= 2 ? 'pixelated' : 'auto' }}
+            onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
             draggable={false}
           />
           
           {/* SVG Overlay for Annotations */}
-          {imgRef.current && (
+          {imageSize && (
              <div className="absolute inset-0 pointer-events-none">
                 {/* Render existing annotations */}
+                {/* Non-rectangular shapes; rects are drawn by their box below */}
+                <svg className="absolute inset-0 w-full h-full overflow-visible">
+                  {annotations.map(ann => (
+                    <g key={ann.id} opacity={ann.disabled ? 0.35 : 1}>
+                      <ShapeOutline
+                        ann={ann}
+                        scale={scale}
+                        target={ann.shape === 'callout' ? resolveCalloutTarget(ann, annotations) : undefined}
+                        isCircled={ann.shape === 'callout' && !findCalloutTarget(ann, annotations)}
+                      />
+                    </g>
+                  ))}
+                  {draft && <ShapeOutline ann={draft} scale={scale} />}
+                  {polygonPoints && (
+                    <g stroke={COLOR_MAP[activeColor]} fill={COLOR_MAP[activeColor]}>
+                      <polyline
+                        points={[...polygonPoints, ...(pointerPos ? [pointerPos] : [])].map(p => `${p.x * scale},${p.y * scale}`).join(' ')}
+                        fill="none"
+                        strokeWidth={3}
+                        strokeDasharray="6 4"
+                      />
+                      {polygonPoints.map((p, i) => (
+                        <circle key={i} cx={p.x * scale} cy={p.y * scale} r={i === 0 ? 5 : 3} stroke="#fff" strokeWidth={1.5} />
+                      ))}
+                    </g>
+                  )}
+                </svg>
+
                 {annotations.map(ann => {
-                  const isSelected = ann.id === selectedId;
+                  const number = numbers.get(ann.id);
+                  const isSelected = selectedIds.includes(ann.id);
+                  // Text and handles only for a single selection
+                  const isEditing = isSelected && selectedIds.length === 1;
+                  const isCallout = ann.shape === 'callout';
+                  const isRect = ann.shape === 'rect' || isCallout;
+                  const bounds = getBounds(ann);
                   const style = {
-                     left: ann.x * scale,
-                     top: ann.y * scale,
-                     width: ann.width * scale,
-                     height: ann.height * scale,
-                     borderColor: COLOR_MAP[ann.color],
+                     left: bounds.x * scale,
+                     top: bounds.y * scale,
+                     width: bounds.width * scale,
+                     height: bounds.height * scale,
+                     // Other shapes only show their bounds while selected
+                     borderColor: isRect ? COLOR_MAP[ann.color] : isSelected ? `${COLOR_MAP[ann.color]}80` : 'transparent',
                      color: COLOR_MAP[ann.color],
                   };
 
                   return (
                     <div
                       key={ann.id}
-                      className={`absolute border-[3px] pointer-events-auto group ${isSelected ? 'z-10' : 'z-0'}`}
+                      className={`absolute border-[3px] group ${isRect ? 'pointer-events-auto' : 'border-dashed pointer-events-none'} ${isCallout ? 'bg-white/90 rounded-sm' : ''} ${isSelected ? 'z-10' : 'z-0'} ${ann.disabled ? 'opacity-40' : ''}`}
                       style={style}
-                      onClick={(e) => { e.stopPropagation(); setSelectedId(ann.id); setTool('select'); }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        // The select tool already handled this in pointerdown
+                        if (tool !== 'select') { setSelectedIds([ann.id]); changeTool('select'); }
+                      }}
                     >
-                      {/* Resize Handle */}
-                      {isSelected && (
-                        <div className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-white border border-slate-400 cursor-se-resize rounded-sm shadow-sm z-20" />
+                      {/* Number (matches the prompt's annotation list) */}
+                      {number && <div
+                        className="absolute -top-[21px] -left-[3px] min-w-[18px] h-[18px] px-1 text-[11px] leading-[18px] text-center font-bold text-white rounded-t-sm pointer-events-none"
+                        style={{ backgroundColor: style.color }}
+                      >
+                        {number}
+                      </div>}
+
+                      {/* Reference thumbnails, under the bottom right corner */}
+                      {!!ann.references?.length && (
+                        <div className="absolute top-full -right-[3px] mt-1 flex space-x-0.5 pointer-events-none">
+                          {ann.references.map(ref => (
+                            <img key={ref.id} src={ref.src} alt={ref.name} className="w-7 h-7 object-cover rounded-sm border-2 bg-white shadow-sm" style={{ borderColor: style.color }} />
+                          ))}
+                        </div>
                       )}
+
+                      {/* Callout Target Handle */}
+                      {isEditing && ann.shape === 'callout' && (() => {
+                        const target = resolveCalloutTarget(ann, annotations);
+                        return (
+                          <div
+                            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border border-slate-400 rounded-full cursor-move shadow-sm z-20 pointer-events-auto"
+                            style={{ left: (target.x - bounds.x) * scale - 3, top: (target.y - bounds.y) * scale - 3 }}
+                            title="Drag to point the arrow elsewhere"
+                          />
+                        );
+                      })()}
+
+                      {/* Resize Handles */}
+                      {isEditing && RESIZE_HANDLES.map(handle => {
+                        const p = getHandlePoint(bounds, handle);
+                        return (
+                          <div
+                            key={handle}
+                            className="absolute w-3 h-3 -ml-1.5 -mt-1.5 bg-white border border-slate-400 rounded-sm shadow-sm z-20 pointer-events-auto"
+                            style={{ left: (p.x - bounds.x) * scale - 3, top: (p.y - bounds.y) * scale - 3, cursor: `${handle}-resize` }}
+                          />
+                        );
+                      })}
                       
                       {/* Text Input */}
-                      {isSelected ? (
-                         <textarea
-                           autoFocus
+                      {isEditing ? (
+                         <SnippetTextarea
+                           // Don't steal focus from the same note being typed in the side panel
+                           autoFocus={!annotationListRef.current?.contains(document.activeElement)}
                            value={ann.text}
-                           onChange={(e) => handleTextChange(ann.id, e.target.value)}
+                           onChange={(text) => handleTextChange(ann.id, text)}
+                           snippets={snippets}
                            onKeyDown={(e) => e.stopPropagation()} // Prevent deleting rect when deleting text
-                           onBlur={() => updateAnnotationsWithHistory(annotations)} // Save to history on blur
-                           className="absolute top-1 left-1 bg-white/90 border-none resize-none outline-none font-bold text-sm p-1 overflow-hidden min-w-[50px] z-20 text-black shadow-sm rounded"
+                           className="absolute top-1 left-1 min-w-[50px] z-20 pointer-events-auto"
                            style={{ width: 'calc(100% - 8px)', height: 'calc(100% - 8px)' }}
-                           placeholder="Type instruction..."
+                           textareaClassName="block w-full h-full bg-white/90 border-none resize-none outline-none font-bold text-sm p-1 overflow-hidden text-black shadow-sm rounded"
+                           placeholder="Type instruction... (/ for snippets)"
                          />
                       ) : (
                          ann.text && (
-                            <div className="absolute top-1 left-1 font-bold text-xs leading-tight pointer-events-none truncate bg-white/80 px-1 rounded" style={{ maxWidth: 'calc(100% - 8px)', color: style.color }}>
+                            <div
+                              className={`absolute top-1 left-1 font-bold text-xs leading-tight pointer-events-none bg-white/80 px-1 rounded ${isCallout ? 'line-clamp-3' : 'truncate'}`}
+                              style={{ maxWidth: 'calc(100% - 8px)', color: isCallout ? '#111' : style.color }}
+                            >
                                {ann.text}
                             </div>
                          )
@@ -347,15 +1118,36 @@ export const Editor: React.FC<EditorProps> = ({
                   );
                 })}
 
+                {/* Group Bounds */}
+                {selectedIds.length > 1 && (() => {
+                  const group = annotations.filter(a => selectedIds.includes(a.id));
+                  if (group.length === 0) return null;
+                  const bounds = getUnionBounds(group);
+                  return (
+                    <div
+                      className="absolute border border-dashed border-slate-900 pointer-events-none"
+                      style={{ left: bounds.x * scale - 4, top: bounds.y * scale - 4, width: bounds.width * scale + 8, height: bounds.height * scale + 8 }}
+                    />
+                  );
+                })()}
+
+                {/* Marquee */}
+                {marquee && (
+                  <div
+                    className="absolute border border-dashed border-slate-900 bg-slate-900/5"
+                    style={{ left: marquee.x * scale, top: marquee.y * scale, width: marquee.width * scale, height: marquee.height * scale }}
+                  />
+                )}
+
                 {/* Current Drawing Rect */}
-                {currentRect && (
+                {draft && (draft.shape === 'rect' || draft.shape === 'callout') && (
                    <div 
-                     className="absolute border-[3px]"
+                     className={`absolute border-[3px] ${draft.shape === 'callout' ? 'bg-white/90 rounded-sm' : ''}`}
                      style={{
-                       left: currentRect.x! * scale,
-                       top: currentRect.y! * scale,
-                       width: currentRect.width! * scale,
-                       height: currentRect.height! * scale,
+                       left: draft.x * scale,
+                       top: draft.y * scale,
+                       width: draft.width * scale,
+                       height: draft.height * scale,
                        borderColor: COLOR_MAP[activeColor],
                      }}
                    />
@@ -364,11 +1156,71 @@ export const Editor: React.FC<EditorProps> = ({
           )}
         </div>
         
+        {/* Zoom Controls */}
+        <div className="absolute top-4 right-4 flex items-center bg-white/90 backdrop-blur border border-slate-200 rounded-full shadow-sm z-20 text-slate-600">
+          <button onClick={() => zoomBy(0.8)} className="p-2 hover:text-slate-900" title="Zoom out (-)">
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <button onClick={() => zoomBy(1 / view.zoom)} className="w-14 text-xs font-medium tabular-nums hover:text-slate-900" title="Actual size (1)">
+            {Math.round(view.zoom * 100)}%
+          </button>
+          <button onClick={() => zoomBy(1.25)} className="p-2 hover:text-slate-900" title="Zoom in (+)">
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button onClick={fitToViewport} className={`p-2 hover:text-slate-900 ${isFit ? 'text-slate-900' : ''}`} title="Fit to screen (0)">
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Minimap, once the image no longer fits */}
+        {imageSize && (imageSize.width * view.zoom > viewportSize.width || imageSize.height * view.zoom > viewportSize.height) && (
+          <Minimap
+            imageSrc={imageSrc}
+            imageSize={imageSize}
+            viewportSize={viewportSize}
+            view={view}
+            onNavigate={centerOn}
+          />
+        )}
+
         {/* Instructions Hint */}
         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-white/90 backdrop-blur border border-slate-200 px-4 py-2 rounded-full text-xs font-medium text-slate-600 shadow-sm pointer-events-none">
-           Short notes work best. Draw tight boxes. The model removes marks after editing.
+           {polygonPoints
+             ? 'Click to add points. Click the first point, double-click or press Enter to close.'
+             : 'Short notes work best. Draw tight boxes. The model removes marks after editing.'}
         </div>
       </div>
+
+      {isAnnotationListOpen && (
+        <aside ref={annotationListRef} className="w-72 shrink-0 border-l bg-white overflow-y-auto p-3">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 px-2 mb-2">Whole-image references</h3>
+          <div className="px-2 mb-4">
+            <ReferenceStrip references={references} onChange={onChangeReferences} remaining={remainingReferences} />
+          </div>
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 px-2 mb-2">Annotations</h3>
+          <AnnotationList
+            annotations={annotations}
+            selectedIds={selectedIds}
+            onSelect={selectFromList}
+            onTextChange={handleTextChange}
+            snippets={snippets}
+            onReferencesChange={handleReferencesChange}
+            remainingReferences={remainingReferences}
+            onToggle={toggleAnnotation}
+            onDuplicate={(id) => duplicateAnnotations([id])}
+            onDelete={(id) => deleteAnnotations([id])}
+            onReorder={reorderAnnotation}
+          />
+        </aside>
+      )}
+
+      {isHistoryListOpen && (
+        <aside className="w-60 shrink-0 border-l bg-white overflow-y-auto p-3">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 px-2 mb-2">Undo history</h3>
+          <EditHistoryList history={history} onJump={(index) => { onJumpHistory(index); setSelectedIds([]); }} />
+        </aside>
+      )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { Annotation, AnimatedExportFormat, AppSettings, ExportRender, StillExportFormat } from '../types';
+import { APP_NAME } from '../constants';
+import { ImageSize } from '../utils/prompt';
+import { canEncode, formatExportFilename, MIME_TYPES, renderExport } from '../utils/export';
+import { downloadBlob } from '../utils/download';
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  // The unannotated input and the edit
+  before: string;
+  after: string;
+  annotations: Annotation[];
+  // Written into the file so the edit can be traced
+  instructions: string;
+  sourceName: string;
+  // Size of the upload before it was downscaled, if it was
+  originalSize: ImageSize | null;
+  // Size the image was edited at
+  workingSize: ImageSize | null;
+  version: number;
+  settings: AppSettings;
+  onChangeSettings: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const RENDERS: { id: ExportRender; label: string; description: string }[] = [
+  { id: 'result', label: 'Result', description: 'The edited image' },
+  { id: 'annotated', label: 'Annotated input', description: 'The image as sent, with its marks' },
+  { id: 'side-by-side', label: 'Side by side', description: 'Before and after next to each other' },
+  { id: 'wipe', label: 'Wipe animation', description: 'A divider revealing the edit' },
+];
+
+const STILL_FORMATS: { id: StillExportFormat; label: string }[] = [
+  { id: 'png', label: 'PNG' },
+  { id: 'jpeg', label: 'JPEG' },
+  { id: 'webp', label: 'WebP' },
+];
+
+const ANIMATED_FORMATS: { id: AnimatedExportFormat; label: string }[] = [
+  { id: 'gif', label: 'GIF' },
+  { id: 'webp', label: 'WebP' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  isOpen,
+  before,
+  after,
+  annotations,
+  instructions,
+  sourceName,
+  originalSize,
+  workingSize,
+  version,
+  settings,
+  onChangeSettings,
+  onClose
+}) => {
+  const [render, setRender] = useState<ExportRender>('result');
+  const [animatedFormat, setAnimatedFormat] = useState<AnimatedExportFormat>('gif');
+  const [upscale, setUpscale] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AppSettings>) => onChangeSettings({ ...settings, ...patch });
+
+  const isAnimated = render === 'wipe';
+  const format = isAnimated ? animatedFormat : settings.exportFormat;
+  const canUpscale = !isAnimated && !!originalSize && !!workingSize && originalSize.width > workingSize.width;
+  const hasQuality = format === 'jpeg' || format === 'webp';
+  const filename = formatExportFilename(
+    settings.exportFilenamePattern,
+    { name: sourceName, render, version, date: new Date() },
+    MIME_TYPES[format]
+  );
+
+  const runExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const created = new Date();
+      const blob = await renderExport({
+        render,
+        stillFormat: settings.exportFormat,
+        animatedFormat,
+        quality: settings.exportQuality,
+        before,
+        after,
+        annotations,
+        upscaleTo: canUpscale && upscale ? originalSize : null,
+        metadata: { description: instructions, software: APP_NAME, created },
+      });
+      // The browser may have fallen back to another format
+      downloadBlob(blob, formatExportFilename(
+        settings.exportFilenamePattern,
+        { name: sourceName, render, version, date: created },
+        blob.type
+      ));
+      onClose();
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || "Failed to export the image.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatButton = (id: string, label: string, isSelected: boolean, onSelect: () => void) => {
+    const isSupported = id !== 'webp' || canEncode(MIME_TYPES.webp);
+    return (
+      <button
+        key={id}
+        onClick={onSelect}
+        disabled={!isSupported}
+        className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors disabled:opacity-40 ${
+          isSelected ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+        }`}
+        title={isSupported ? undefined : 'This browser cannot encode WebP'}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-full bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col">
+        <div className="h-14 border-b flex items-center justify-between px-5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <Download className="w-5 h-5 mr-2 text-slate-500" />
+            Export
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">What to export</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {RENDERS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setRender(option.id)}
+                  className={`p-3 rounded-xl border text-left transition-colors ${
+                    render === option.id ? 'border-slate-900 bg-slate-50' : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-slate-800">{option.label}</p>
+                  <p className="text-xs text-slate-500">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Format</h3>
+            <div className="flex bg-slate-100 p-1 rounded-lg">
+              {isAnimated
+                ? ANIMATED_FORMATS.map(f => formatButton(f.id, f.label, animatedFormat === f.id, () => setAnimatedFormat(f.id)))
+                : STILL_FORMATS.map(f => formatButton(f.id, f.label, settings.exportFormat === f.id, () => update({ exportFormat: f.id })))}
+            </div>
+            {hasQuality && (
+              <label className="block">
+                <div className="flex justify-between text-xs text-slate-500 mb-1">
+                  <span>Quality</span>
+                  <span>{settings.exportQuality}</span>
+                </div>
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  value={settings.exportQuality}
+                  onChange={(e) => update({ exportQuality: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+            )}
+            {canUpscale && (
+              <label className="flex items-start cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1 mr-3"
+                  checked={upscale}
+                  onChange={(e) => setUpscale(e.target.checked)}
+                />
+                <div>
+                  <p className="text-sm font-medium text-slate-800">Upscale to original size</p>
+                  <p className="text-xs text-slate-500">
+                    The upload was reduced to {workingSize!.width}×{workingSize!.height} for editing. Export at {originalSize!.width}×{originalSize!.height}.
+                  </p>
+                </div>
+              </label>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">File name</h3>
+            <input
+              value={settings.exportFilenamePattern}
+              onChange={(e) => update({ exportFilenamePattern: e.target.value })}
+              className="w-full text-sm font-mono p-2 border border-slate-200 rounded-lg outline-none focus:border-slate-400"
+            />
+            <p className="text-xs text-slate-400">Use {'{name}'}, {'{render}'}, {'{version}'}, {'{date}'} and {'{time}'}.</p>
+            <p className="text-xs text-slate-600 font-mono truncate">{filename}</p>
+          </section>
+
+          <p className="text-xs text-slate-400">The edit instructions are written into the file's metadata.</p>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="border-t p-4 flex justify-end shrink-0">
+          <button
+            onClick={runExport}
+            disabled={isExporting}
+            className="flex items-center px-5 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { X, Download, Trash2, RotateCcw, History } from 'lucide-react';
+import { HistoryItem } from '../types';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  items: HistoryItem[];
+  onClose: () => void;
+  onRestore: (item: HistoryItem) => void;
+  onDownload: (item: HistoryItem) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  isOpen,
+  items,
+  onClose,
+  onRestore,
+  onDownload,
+  onDelete
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-sm h-full bg-white shadow-2xl border-l border-slate-200 flex flex-col animate-in slide-in-from-right">
+        <div className="h-16 border-b flex items-center justify-between px-4 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <History className="w-5 h-5 mr-2 text-slate-500" />
+            History
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {items.length === 0 && (
+            <p className="text-sm text-slate-400 text-center mt-12">
+              No past edits yet. Every generation is saved here automatically.
+            </p>
+          )}
+
+          {items.map(item => (
+            <div key={item.id} className="flex items-center space-x-3 p-2 rounded-xl border border-slate-200 hover:border-slate-300 hover:shadow-sm transition-all">
+              <button
+                onClick={() => onRestore(item)}
+                className="w-16 h-16 shrink-0 rounded-lg overflow-hidden bg-slate-100"
+                title="Restore into editor"
+              >
+                <img src={item.thumbnail} alt="" className="w-full h-full object-cover" draggable={false} />
+              </button>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700 truncate">{formatTimestamp(item.timestamp)}</p>
+                <p className="text-xs text-slate-400">
+                  {item.annotations.length} {item.annotations.length === 1 ? 'annotation' : 'annotations'}
+                </p>
+              </div>
+
+              <div className="flex items-center shrink-0">
+                <button onClick={() => onRestore(item)} className="p-2 text-slate-500 hover:text-slate-800" title="Restore">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDownload(item)} className="p-2 text-slate-500 hover:text-slate-800" title="Download result">
+                  <Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDelete(item.id)} className="p-2 text-red-400 hover:text-red-600" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { ChevronRight, Images, X } from 'lucide-react';
+
+interface ImageQueueProps {
+  // Files waiting their turn, next first
+  files: File[];
+  onNext: () => void;
+  onClear: () => void;
+}
+
+export const ImageQueue: React.FC<ImageQueueProps> = ({ files, onNext, onClear }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="h-10 border-b bg-slate-50 flex items-center justify-center px-4 shrink-0 text-xs text-slate-500 space-x-3">
+      <Images className="w-4 h-4 text-slate-400" />
+      <span className="truncate max-w-md">
+        {files.length} more {files.length === 1 ? 'image' : 'images'} queued
+        <span className="text-slate-400"> · next: {files[0].name}</span>
+      </span>
+      <button
+        onClick={onNext}
+        className="flex items-center px-2.5 py-1 rounded-full font-medium bg-slate-900 text-white hover:bg-slate-800"
+        title="Open the next image"
+      >
+        Next image
+        <ChevronRight className="w-3 h-3 ml-1" />
+      </button>
+      <button onClick={onClear} className="p-1 text-slate-400 hover:text-slate-700" title="Clear queue">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
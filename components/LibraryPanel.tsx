@@ -0,0 +1,218 @@
+import React, { useRef, useState } from 'react';
+import { X, BookMarked, Plus, Trash2, Upload, Download } from 'lucide-react';
+import { PromptLibrary, PromptTemplate, PromptTemplateKind, Snippet } from '../types';
+import { exportLibrary, getActiveTemplate, mergeLibrary, parseLibrary } from '../services/library';
+import { downloadBlob } from '../utils/download';
+
+interface LibraryPanelProps {
+  isOpen: boolean;
+  library: PromptLibrary;
+  onChange: (library: PromptLibrary) => void;
+  onClose: () => void;
+}
+
+const TEMPLATE_SECTIONS: { kind: PromptTemplateKind; title: string; hint: string }[] = [
+  { kind: 'edit', title: 'Edit prompt', hint: '{color} becomes the mark colors in use, {count} the number of annotations.' },
+  { kind: 'cleanup', title: 'Clean-up prompt', hint: '{color} becomes the leftover mark colors, {count} how many there are.' },
+];
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({ isOpen, library, onChange, onClose }) => {
+  const [tab, setTab] = useState<'snippets' | 'templates'>('snippets');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!isOpen) return null;
+
+  const updateSnippet = (id: string, patch: Partial<Snippet>) =>
+    onChange({ ...library, snippets: library.snippets.map(s => s.id === id ? { ...s, ...patch } : s) });
+
+  const addSnippet = () =>
+    onChange({ ...library, snippets: [...library.snippets, { id: newId(), shortcut: '', text: '' }] });
+
+  const deleteSnippet = (id: string) =>
+    onChange({ ...library, snippets: library.snippets.filter(s => s.id !== id) });
+
+  const updateTemplate = (id: string, patch: Partial<PromptTemplate>) =>
+    onChange({ ...library, templates: library.templates.map(t => t.id === id ? { ...t, ...patch } : t) });
+
+  // New templates start from the wording in use
+  const addTemplate = (kind: PromptTemplateKind) => {
+    const template: PromptTemplate = { id: newId(), name: 'Untitled', kind, body: getActiveTemplate(library, kind) };
+    onChange({
+      ...library,
+      templates: [...library.templates, template],
+      activeTemplates: { ...library.activeTemplates, [kind]: template.id },
+    });
+  };
+
+  const deleteTemplate = (template: PromptTemplate) => {
+    const templates = library.templates.filter(t => t.id !== template.id);
+    const activeTemplates = library.activeTemplates[template.kind] === template.id
+      ? { ...library.activeTemplates, [template.kind]: templates.find(t => t.kind === template.kind)!.id }
+      : library.activeTemplates;
+    onChange({ ...library, templates, activeTemplates });
+  };
+
+  const importFile = async (file: File) => {
+    setImportError(null);
+    try {
+      onChange(mergeLibrary(library, parseLibrary(await file.text())));
+    } catch (e: any) {
+      console.error(e);
+      setImportError(e.message || "Failed to import library.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl max-h-full bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col">
+        <div className="h-14 border-b flex items-center justify-between px-5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <BookMarked className="w-5 h-5 mr-2 text-slate-500" />
+            Library
+          </h2>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg"
+              title="Add snippets and templates from a library file"
+            >
+              <Upload className="w-4 h-4 mr-1.5" />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => { if (e.target.files?.[0]) importFile(e.target.files[0]); e.target.value = ''; }}
+            />
+            <button
+              onClick={() => downloadBlob(exportLibrary(library), 'nanobanana-library.json')}
+              className="flex items-center px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg"
+            >
+              <Download className="w-4 h-4 mr-1.5" />
+              Export
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex border-b px-5 space-x-4 shrink-0">
+          {(['snippets', 'templates'] as const).map(id => (
+            <button
+              key={id}
+              onClick={() => setTab(id)}
+              className={`py-2.5 text-sm font-medium capitalize border-b-2 -mb-px ${
+                tab === id ? 'border-slate-900 text-slate-900' : 'border-transparent text-slate-400 hover:text-slate-700'
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+
+        {importError && (
+          <p className="mx-5 mt-4 text-sm text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">{importError}</p>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          {tab === 'snippets' && (
+            <section className="space-y-3">
+              <p className="text-xs text-slate-500">Type / followed by a shortcut in any annotation note to insert a snippet.</p>
+              {library.snippets.map(snippet => (
+                <div key={snippet.id} className="flex items-start space-x-2">
+                  <label className="flex items-center w-32 shrink-0 border border-slate-200 rounded-lg px-2 focus-within:border-slate-400">
+                    <span className="text-sm font-mono text-slate-400">/</span>
+                    <input
+                      value={snippet.shortcut}
+                      onChange={(e) => updateSnippet(snippet.id, { shortcut: e.target.value.replace(/[^\w-]/g, '') })}
+                      className="w-full py-2 text-sm font-mono outline-none"
+                      placeholder="shortcut"
+                    />
+                  </label>
+                  <textarea
+                    rows={2}
+                    value={snippet.text}
+                    onChange={(e) => updateSnippet(snippet.id, { text: e.target.value })}
+                    className="flex-1 text-sm p-2 border border-slate-200 rounded-lg resize-y outline-none focus:border-slate-400"
+                    placeholder="Note to insert"
+                  />
+                  <button onClick={() => deleteSnippet(snippet.id)} className="p-2 text-slate-400 hover:text-red-500" title="Delete snippet">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button onClick={addSnippet} className="flex items-center text-sm font-medium text-slate-500 hover:text-slate-800">
+                <Plus className="w-4 h-4 mr-1" />
+                Add snippet
+              </button>
+            </section>
+          )}
+
+          {tab === 'templates' && TEMPLATE_SECTIONS.map(({ kind, title, hint }) => {
+            const templates = library.templates.filter(t => t.kind === kind);
+            return (
+              <section key={kind} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">{title}</h3>
+                  <button onClick={() => addTemplate(kind)} className="flex items-center text-xs font-medium text-slate-400 hover:text-slate-700">
+                    <Plus className="w-3.5 h-3.5 mr-1" />
+                    New
+                  </button>
+                </div>
+                <p className="text-xs text-slate-500">{hint}</p>
+                {templates.map(template => {
+                  const isActive = library.activeTemplates[kind] === template.id;
+                  return (
+                    <div
+                      key={template.id}
+                      className={`p-3 rounded-xl border space-y-2 ${isActive ? 'border-slate-900 bg-slate-50' : 'border-slate-200'}`}
+                    >
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="radio"
+                          name={`template-${kind}`}
+                          checked={isActive}
+                          onChange={() => onChange({ ...library, activeTemplates: { ...library.activeTemplates, [kind]: template.id } })}
+                          title="Use this template"
+                        />
+                        <input
+                          value={template.name}
+                          onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+                          className="flex-1 text-sm font-medium bg-transparent outline-none"
+                          placeholder="Template name"
+                        />
+                        <button
+                          onClick={() => deleteTemplate(template)}
+                          disabled={templates.length === 1}
+                          className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-30"
+                          title={templates.length === 1 ? 'At least one template is needed' : 'Delete template'}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea
+                        rows={4}
+                        value={template.body}
+                        onChange={(e) => updateTemplate(template.id, { body: e.target.value })}
+                        className="w-full text-sm p-2 border border-slate-200 rounded-lg resize-y outline-none focus:border-slate-400 bg-white"
+                      />
+                    </div>
+                  );
+                })}
+              </section>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
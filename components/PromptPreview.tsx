@@ -0,0 +1,96 @@
+import React from 'react';
+import { X, FileText, RotateCcw, Loader2 } from 'lucide-react';
+
+interface PromptPreviewProps {
+  isOpen: boolean;
+  prompt: string;
+  isCustom: boolean;
+  // Set while crop and stitch is on, which prompts each crop on its own
+  isReadOnly: boolean;
+  isProcessing: boolean;
+  onChange: (prompt: string) => void;
+  onReset: () => void;
+  onGenerate: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+export const PromptPreview: React.FC<PromptPreviewProps> = ({
+  isOpen,
+  prompt,
+  isCustom,
+  isReadOnly,
+  isProcessing,
+  onChange,
+  onReset,
+  onGenerate,
+  onCancel,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl max-h-full bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col">
+        <div className="h-14 border-b flex items-center justify-between px-5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <FileText className="w-5 h-5 mr-2 text-slate-500" />
+            Prompt
+            {isCustom && (
+              <span className="ml-2 px-2 py-0.5 text-[10px] font-bold uppercase tracking-wide text-amber-700 bg-amber-50 border border-amber-200 rounded-full">
+                Edited
+              </span>
+            )}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 p-5 space-y-2 overflow-hidden flex flex-col">
+          <p className="text-xs text-slate-500">
+            {isReadOnly
+              ? "Crop and stitch is on: each marked area is sent with its own automatic prompt, so this one can't be edited. Turn it off in Settings to edit the prompt."
+              : "This is sent with the annotated image. Edits are kept until the annotations change."}
+          </p>
+          <textarea
+            value={prompt}
+            onChange={(e) => onChange(e.target.value)}
+            readOnly={isReadOnly}
+            className="flex-1 min-h-[320px] w-full text-sm font-mono p-3 border border-slate-200 rounded-lg resize-none outline-none focus:border-slate-400 read-only:bg-slate-50 read-only:text-slate-500"
+            spellCheck={false}
+          />
+        </div>
+
+        <div className="h-16 border-t flex items-center justify-between px-5 shrink-0">
+          <button
+            onClick={onReset}
+            disabled={!isCustom}
+            className="flex items-center text-sm font-medium text-slate-500 hover:text-slate-800 disabled:opacity-30"
+          >
+            <RotateCcw className="w-4 h-4 mr-1.5" />
+            Reset to automatic
+          </button>
+          <div className="flex items-center space-x-2">
+            {isProcessing && (
+              <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-red-500 hover:bg-red-50 rounded-full">
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={onGenerate}
+              disabled={isProcessing || !prompt.trim()}
+              className="flex items-center space-x-2 bg-slate-900 text-white px-6 py-2 rounded-full hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+            >
+              {isProcessing ? <Loader2 className="w-4 h-4 animate-spin" /> : <span className="text-lg">✨</span>}
+              <span>Generate</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
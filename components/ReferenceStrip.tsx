@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { ReferenceImage } from '../types';
+import { IMAGE_ACCEPT, ingestReference } from '../utils/ingest';
+
+interface ReferenceStripProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+  // How many more can be attached before the request limit
+  remaining: number;
+}
+
+// Thumbnails of attached reference images with a button to add more
+export const ReferenceStrip: React.FC<ReferenceStripProps> = ({ references, onChange, remaining }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addFiles = async (files: File[]) => {
+    setIsAdding(true);
+    setError(null);
+    const added: ReferenceImage[] = [];
+    for (const file of files.slice(0, remaining)) {
+      try {
+        added.push(await ingestReference(file));
+      } catch (e: any) {
+        console.error(e);
+        setError(e.message || `Could not read ${file.name}.`);
+      }
+    }
+    if (files.length > remaining) setError(`Only ${remaining} more ${remaining === 1 ? 'reference' : 'references'} can be attached.`);
+    if (added.length > 0) onChange([...references, ...added]);
+    setIsAdding(false);
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {references.map(ref => (
+          <div key={ref.id} className="relative group/ref w-10 h-10 rounded-md border border-slate-200 bg-slate-50 overflow-hidden" title={ref.name}>
+            <img src={ref.src} alt={ref.name} className="w-full h-full object-cover" />
+            <button
+              onClick={() => onChange(references.filter(r => r.id !== ref.id))}
+              className="absolute top-0 right-0 p-0.5 bg-slate-900/70 text-white rounded-bl-md opacity-0 group-hover/ref:opacity-100"
+              title="Remove reference"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <label
+          className={`w-10 h-10 rounded-md border border-dashed flex items-center justify-center ${
+            remaining > 0 && !isAdding ? 'border-slate-300 text-slate-400 hover:text-slate-700 hover:border-slate-400 cursor-pointer' : 'border-slate-200 text-slate-300'
+          }`}
+          title={remaining > 0 ? 'Attach a reference image' : 'Reference image limit reached'}
+        >
+          <input
+            type="file"
+            className="hidden"
+            accept={IMAGE_ACCEPT}
+            multiple
+            disabled={remaining <= 0 || isAdding}
+            onChange={(e) => { addFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }}
+          />
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
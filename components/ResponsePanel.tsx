@@ -0,0 +1,107 @@
+import React from 'react';
+import { MessageSquareText, ShieldAlert, Gauge, LayoutGrid } from 'lucide-react';
+import { ImageEditResult } from '../types';
+
+interface ResponsePanelProps {
+  response: ImageEditResult;
+  // The image currently shown as the result
+  selectedImage: string;
+  onSelect: (image: string) => void;
+  onOpenGrid?: () => void;
+}
+
+// Ratings at these levels are worth pointing out
+const NOTABLE_PROBABILITIES = ['MEDIUM', 'HIGH'];
+
+const formatCategory = (category: string) =>
+  category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+export const ResponsePanel: React.FC<ResponsePanelProps> = ({ response, selectedImage, onSelect, onOpenGrid }) => {
+  // More than one image when variations were requested, or now and then
+  // when a single answer carries several
+  const choices = response.candidates.flatMap((candidate, c) =>
+    candidate.images.map((image, i) => ({ image, label: candidate.images.length > 1 ? `${c + 1}.${i + 1}` : `${c + 1}` }))
+  );
+  const texts = response.candidates.map(c => c.text).filter(Boolean);
+  const ratings = response.candidates.flatMap(c => c.safetyRatings)
+    .filter(r => r.blocked || NOTABLE_PROBABILITIES.includes(r.probability));
+  const finishReasons = Array.from(new Set(response.candidates.map(c => c.finishReason).filter(Boolean)));
+
+  return (
+    <aside className="w-72 shrink-0 border-l bg-white overflow-y-auto p-4 space-y-5">
+      {choices.length > 1 && (
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Results</h3>
+            {onOpenGrid && (
+              <button onClick={onOpenGrid} className="flex items-center text-xs font-medium text-slate-400 hover:text-slate-700" title="Compare in a grid">
+                <LayoutGrid className="w-3.5 h-3.5 mr-1" />
+                Grid
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {choices.map(choice => (
+              <button
+                key={choice.label}
+                onClick={() => onSelect(choice.image)}
+                className={`relative aspect-square rounded-lg overflow-hidden border-2 ${
+                  choice.image === selectedImage ? 'border-slate-900' : 'border-transparent hover:border-slate-300'
+                }`}
+                title={`Result ${choice.label}`}
+              >
+                <img src={choice.image} alt="" className="w-full h-full object-cover" draggable={false} />
+                <span className="absolute bottom-1 left-1 bg-black/50 text-white text-[10px] font-bold px-1 rounded">{choice.label}</span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 flex items-center">
+          <MessageSquareText className="w-3.5 h-3.5 mr-1.5" />
+          Model notes
+        </h3>
+        {texts.length > 0 ? (
+          texts.map((text, i) => (
+            <p key={i} className="text-sm text-slate-700 whitespace-pre-wrap">{text}</p>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">The model returned no text.</p>
+        )}
+      </section>
+
+      {ratings.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 flex items-center">
+            <ShieldAlert className="w-3.5 h-3.5 mr-1.5" />
+            Safety
+          </h3>
+          {ratings.map((rating, i) => (
+            <p key={i} className={`text-xs ${rating.blocked ? 'text-red-600' : 'text-amber-700'}`}>
+              {formatCategory(rating.category)}: {rating.probability.toLowerCase()}{rating.blocked ? ' (blocked)' : ''}
+            </p>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-1">
+        <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400 flex items-center">
+          <Gauge className="w-3.5 h-3.5 mr-1.5" />
+          Details
+        </h3>
+        {finishReasons.length > 0 && (
+          <p className="text-xs text-slate-500">Finish reason: {finishReasons.join(', ')}</p>
+        )}
+        {response.usage ? (
+          <p className="text-xs text-slate-500">
+            Tokens: {response.usage.promptTokens} in, {response.usage.outputTokens} out ({response.usage.totalTokens} total)
+          </p>
+        ) : (
+          <p className="text-xs text-slate-400">No usage reported.</p>
+        )}
+      </section>
+    </aside>
+  );
+};
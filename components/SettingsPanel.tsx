@@ -0,0 +1,215 @@
+import React from 'react';
+import { X, Settings, AlertTriangle } from 'lucide-react';
+import { AppSettings } from '../types';
+import { ANNOTATION_COLORS, COLOR_MAP, DEFAULT_COLOR_MEANINGS } from '../constants';
+import { listProviders } from '../services/providers';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AppSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-md max-h-full bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col">
+        <div className="h-14 border-b flex items-center justify-between px-5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <Settings className="w-5 h-5 mr-2 text-slate-500" />
+            Settings
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Image edit provider</h3>
+            {listProviders().map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-start p-3 rounded-xl border cursor-pointer transition-colors ${
+                  settings.provider === provider.id ? 'border-slate-900 bg-slate-50' : 'border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  className="mt-1 mr-3"
+                  checked={settings.provider === provider.id}
+                  onChange={() => update({ provider: provider.id })}
+                />
+                <div>
+                  <p className="text-sm font-medium text-slate-800">{provider.label}</p>
+                  <p className="text-xs text-slate-500">{provider.description}</p>
+                  {!provider.isConfigured() && (
+                    <p className="text-xs text-amber-600 flex items-center mt-1">
+                      <AlertTriangle className="w-3 h-3 mr-1" /> Not configured
+                    </p>
+                  )}
+                </div>
+              </label>
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Compositing</h3>
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 mr-3"
+                checked={settings.strictRegions}
+                onChange={(e) => update({ strictRegions: e.target.checked })}
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-800">Strict regions</p>
+                <p className="text-xs text-slate-500">Keep generated pixels only inside the boxes. Everything else stays identical to the original.</p>
+              </div>
+            </label>
+            <label className={`block pl-7 ${settings.strictRegions ? '' : 'opacity-40 pointer-events-none'}`}>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Feathered margin</span>
+                <span>{settings.featherMargin}px</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={64}
+                value={settings.featherMargin}
+                onChange={(e) => update({ featherMargin: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Large images</h3>
+            <label className="flex items-start cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-1 mr-3"
+                checked={settings.cropAndStitch}
+                onChange={(e) => update({ cropAndStitch: e.target.checked })}
+              />
+              <div>
+                <p className="text-sm font-medium text-slate-800">Crop and stitch</p>
+                <p className="text-xs text-slate-500">Edit each marked area in a crop of the full-resolution upload and blend it back, so the result keeps the original size.</p>
+              </div>
+            </label>
+            <p className="text-xs text-slate-400">Each crop gets its own automatic prompt, so hand-edited prompts and variations are not used.</p>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Requests</h3>
+            <label className="block">
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Timeout per attempt</span>
+                <span>{settings.requestTimeoutSec}s</span>
+              </div>
+              <input
+                type="range"
+                min={15}
+                max={300}
+                step={15}
+                value={settings.requestTimeoutSec}
+                onChange={(e) => update({ requestTimeoutSec: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="block">
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Automatic retries</span>
+                <span>{settings.maxRetries}</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={5}
+                value={settings.maxRetries}
+                onChange={(e) => update({ maxRetries: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <p className="text-xs text-slate-400">Rate limits, timeouts and network failures are retried with backoff.</p>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Variations</h3>
+            <label className="block">
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Results per generation</span>
+                <span>{settings.variations}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={4}
+                value={settings.variations}
+                onChange={(e) => update({ variations: Number(e.target.value) })}
+                disabled={settings.cropAndStitch}
+                className="w-full disabled:opacity-50"
+              />
+            </label>
+            <p className="text-xs text-slate-400">
+              {settings.cropAndStitch
+                ? "Crop and stitch makes one result per generation; turn it off to get variations."
+                : "More than one sends parallel requests and lets you pick the best result from a grid."}
+            </p>
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Batch</h3>
+            <label className="block">
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>Parallel requests</span>
+                <span>{settings.batchConcurrency}</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={4}
+                value={settings.batchConcurrency}
+                onChange={(e) => update({ batchConcurrency: Number(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Color meanings</h3>
+              <button
+                onClick={() => update({ colorMeanings: DEFAULT_COLOR_MEANINGS })}
+                className="text-xs font-medium text-slate-400 hover:text-slate-700"
+              >
+                Reset
+              </button>
+            </div>
+            {ANNOTATION_COLORS.map(color => (
+              <label key={color} className="flex items-start">
+                <span className="w-4 h-4 mt-2 mr-3 rounded-full shrink-0" style={{ backgroundColor: COLOR_MAP[color] }} title={color} />
+                <textarea
+                  rows={2}
+                  value={settings.colorMeanings[color]}
+                  onChange={(e) => update({ colorMeanings: { ...settings.colorMeanings, [color]: e.target.value } })}
+                  className="flex-1 text-sm p-2 border border-slate-200 rounded-lg resize-none outline-none focus:border-slate-400"
+                  placeholder={DEFAULT_COLOR_MEANINGS[color]}
+                />
+              </label>
+            ))}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useRef, useState } from 'react';
+import { TextQuote } from 'lucide-react';
+import { Snippet } from '../types';
+
+interface SnippetTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  snippets: Snippet[];
+  // The wrapper positions the textarea and the suggestion list
+  className?: string;
+  style?: React.CSSProperties;
+  textareaClassName?: string;
+  // Adds a button that lists every snippet without typing /
+  showPickerButton?: boolean;
+  placeholder?: string;
+  autoFocus?: boolean;
+  rows?: number;
+  onFocus?: () => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
+  onClick?: (e: React.MouseEvent) => void;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// "/" at the start of a word, then the shortcut typed so far
+const SLASH_QUERY = /(^|\s)\/([\w-]*)$/;
+
+// Where the text being replaced starts and what to match it against
+interface Suggesting {
+  from: number;
+  to: number;
+  query: string;
+}
+
+export const SnippetTextarea: React.FC<SnippetTextareaProps> = ({
+  value,
+  onChange,
+  snippets,
+  className = 'relative',
+  style,
+  textareaClassName,
+  showPickerButton = false,
+  placeholder,
+  autoFocus,
+  rows,
+  onFocus,
+  onKeyDown,
+  onClick
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [suggesting, setSuggesting] = useState<Suggesting | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const query = suggesting?.query.toLowerCase() || '';
+  const matches = suggesting
+    ? snippets.filter(s => s.shortcut.toLowerCase().startsWith(query) || s.text.toLowerCase().includes(query)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateSuggesting = (text: string, caret: number) => {
+    const match = SLASH_QUERY.exec(text.slice(0, caret));
+    setSuggesting(match ? { from: caret - match[2].length - 1, to: caret, query: match[2] } : null);
+    setHighlighted(0);
+  };
+
+  const openPicker = () => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    setSuggesting({ from: caret, to: caret, query: '' });
+    setHighlighted(0);
+    textareaRef.current?.focus();
+  };
+
+  const insert = (snippet: Snippet) => {
+    if (!suggesting) return;
+    onChange(value.slice(0, suggesting.from) + snippet.text + value.slice(suggesting.to));
+    setSuggesting(null);
+    const caret = suggesting.from + snippet.text.length;
+    // Place the caret after the inserted text once the new value renders
+    requestAnimationFrame(() => textareaRef.current?.setSelectionRange(caret, caret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (matches.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(i => (i + step + matches.length) % matches.length);
+        e.stopPropagation();
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        e.stopPropagation();
+        insert(matches[Math.min(highlighted, matches.length - 1)]);
+        return;
+      }
+    }
+    if (suggesting && e.key === 'Escape') {
+      e.stopPropagation();
+      setSuggesting(null);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className={className} style={style}>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateSuggesting(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={onFocus}
+        onClick={onClick}
+        onBlur={() => setSuggesting(null)}
+        autoFocus={autoFocus}
+        rows={rows}
+        className={textareaClassName}
+        placeholder={placeholder}
+      />
+
+      {showPickerButton && snippets.length > 0 && (
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={(e) => { e.stopPropagation(); openPicker(); }}
+          className="absolute bottom-2 right-1.5 p-0.5 text-slate-300 hover:text-slate-600"
+          title="Insert snippet (or type /)"
+        >
+          <TextQuote className="w-3.5 h-3.5" />
+        </button>
+      )}
+
+      {matches.length > 0 && (
+        <ul
+          className="absolute left-0 top-full mt-1 z-30 w-64 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-left"
+          // Keep the canvas from treating a pick as a click on the image
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          {matches.map((snippet, i) => (
+            <li key={snippet.id}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={(e) => { e.stopPropagation(); insert(snippet); }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={`w-full px-3 py-1.5 text-left ${i === highlighted ? 'bg-slate-100' : ''}`}
+              >
+                <span className="block text-xs font-mono text-slate-400">/{snippet.shortcut}</span>
+                <span className="block text-sm font-normal text-slate-700 truncate">{snippet.text}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Star, Check, Columns2 } from 'lucide-react';
+import { CompareSlider } from './CompareSlider';
+import { downloadDataUrl } from '../utils/download';
+
+interface VariationGridProps {
+  images: string[];
+  // The variation currently used as the result
+  selectedImage: string | null;
+  // Indices into `images`
+  starred: number[];
+  onToggleStar: (index: number) => void;
+  onPick: (image: string) => void;
+  onBack: () => void;
+}
+
+export const VariationGrid: React.FC<VariationGridProps> = ({
+  images,
+  selectedImage,
+  starred,
+  onToggleStar,
+  onPick,
+  onBack
+}) => {
+  // Indices ticked for comparison, oldest first
+  const [compareSelection, setCompareSelection] = useState<number[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  const toggleCompare = (index: number) => {
+    setCompareSelection(prev => prev.includes(index)
+      ? prev.filter(i => i !== index)
+      : [...prev, index].slice(-2));
+  };
+
+  if (isComparing && compareSelection.length === 2) {
+    const [a, b] = compareSelection;
+    return (
+      <CompareSlider
+        before={images[a]}
+        after={images[b]}
+        title={`Variation ${a + 1} vs ${b + 1}`}
+        beforeLabel={`Variation ${a + 1}`}
+        afterLabel={`Variation ${b + 1}`}
+        resetLabel="Back to Variations"
+        onReset={() => setIsComparing(false)}
+        onDownload={() => downloadDataUrl(images[b], `nanobanana-variation-${b + 1}.png`)}
+        aside={
+          <aside className="w-56 shrink-0 border-l bg-white p-4 space-y-2">
+            <h3 className="text-xs font-bold uppercase tracking-wide text-slate-400">Use as result</h3>
+            {compareSelection.map(index => (
+              <button
+                key={index}
+                onClick={() => onPick(images[index])}
+                className="w-full flex items-center justify-center px-4 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800"
+              >
+                <Check className="w-4 h-4 mr-2" />
+                Variation {index + 1}
+              </button>
+            ))}
+          </aside>
+        }
+      />
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-slate-50">
+      <div className="h-16 border-b flex items-center justify-between px-4 bg-white shrink-0">
+        <div className="flex items-center space-x-3">
+          <button onClick={onBack} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Back to Editor">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h2 className="text-lg font-bold text-slate-800">{images.length} Variations</h2>
+          <span className="text-xs text-slate-400">Tick two to compare them, then pick one as the result</span>
+        </div>
+
+        <button
+          onClick={() => setIsComparing(true)}
+          disabled={compareSelection.length !== 2}
+          className="flex items-center space-x-2 bg-slate-900 text-white px-6 py-2 rounded-full hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+        >
+          <Columns2 className="w-4 h-4" />
+          <span>Compare</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="grid grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-4">
+          {images.map((image, index) => {
+            const isStarred = starred.includes(index);
+            const isSelected = image === selectedImage;
+            return (
+              <div
+                key={index}
+                className={`bg-white rounded-xl border-2 overflow-hidden shadow-sm ${isSelected ? 'border-slate-900' : 'border-transparent'}`}
+              >
+                <button
+                  onClick={() => toggleCompare(index)}
+                  className="relative block w-full bg-slate-100"
+                  title="Select for comparison"
+                >
+                  <img src={image} alt="" className="w-full h-auto" draggable={false} />
+                  <span className={`absolute top-2 left-2 w-6 h-6 rounded-full border-2 border-white flex items-center justify-center shadow ${
+                    compareSelection.includes(index) ? 'bg-slate-900 text-white' : 'bg-black/20'
+                  }`}>
+                    {compareSelection.includes(index) && <Check className="w-3.5 h-3.5" />}
+                  </span>
+                </button>
+
+                <div className="p-2 flex items-center space-x-2">
+                  <p className="flex-1 text-sm font-medium text-slate-700">
+                    Variation {index + 1}
+                    {isSelected && <span className="ml-2 text-xs text-slate-400">current result</span>}
+                  </p>
+                  <button
+                    onClick={() => onToggleStar(index)}
+                    className={`p-1 ${isStarred ? 'text-amber-500' : 'text-slate-300 hover:text-slate-500'}`}
+                    title={isStarred ? 'Unstar' : 'Star'}
+                  >
+                    <Star className="w-4 h-4" fill={isStarred ? 'currentColor' : 'none'} />
+                  </button>
+                  <button
+                    onClick={() => onPick(image)}
+                    className="px-3 py-1 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-lg"
+                  >
+                    Use
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
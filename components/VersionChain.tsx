@@ -0,0 +1,53 @@
+import React from 'react';
+import { ChevronRight, ChevronLeft } from 'lucide-react';
+import { EditVersion } from '../types';
+
+interface VersionChainProps {
+  versions: EditVersion[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}
+
+export const VersionChain: React.FC<VersionChainProps> = ({ versions, activeIndex, onSelect }) => {
+  if (versions.length < 2) return null;
+
+  return (
+    <div className="h-10 border-b bg-white flex items-center justify-center px-4 shrink-0 text-xs space-x-1">
+      <button
+        onClick={() => onSelect(activeIndex - 1)}
+        disabled={activeIndex === 0}
+        className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+        title="Previous version"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+
+      {versions.map((version, index) => (
+        <React.Fragment key={version.id}>
+          {index > 0 && <ChevronRight className="w-3 h-3 text-slate-300" />}
+          <button
+            onClick={() => onSelect(index)}
+            className={`flex items-center px-2.5 py-1 rounded-full font-medium transition-colors ${
+              index === activeIndex ? 'bg-slate-900 text-white' : 'text-slate-500 hover:bg-slate-100'
+            }`}
+            title={version.generatedImage ? 'Compare this step' : 'Not generated yet'}
+          >
+            v{index + 1}
+            {version.generatedImage && (
+              <span className={`ml-1.5 w-1.5 h-1.5 rounded-full ${index === activeIndex ? 'bg-white' : 'bg-emerald-500'}`} />
+            )}
+          </button>
+        </React.Fragment>
+      ))}
+
+      <button
+        onClick={() => onSelect(activeIndex + 1)}
+        disabled={activeIndex === versions.length - 1}
+        className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30"
+        title="Next version"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Camera, Loader2 } from 'lucide-react';
+import { captureVideoFrame, getCameraErrorMessage } from '../utils/sources';
+
+interface WebcamCaptureProps {
+  isOpen: boolean;
+  onCapture: (dataUrl: string) => void;
+  onClose: () => void;
+}
+
+export const WebcamCapture: React.FC<WebcamCaptureProps> = ({ isOpen, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The camera is on only while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsReady(false);
+    setError(null);
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't access a camera here. Camera access needs a secure (https) page.");
+      return;
+    }
+    navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => { if (!cancelled) setError(getCameraErrorMessage(e)); });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    onCapture(captureVideoFrame(video));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-[1px]" onClick={onClose} />
+
+      <div className="relative w-full max-w-2xl bg-white rounded-2xl shadow-2xl border border-slate-200 flex flex-col">
+        <div className="h-14 border-b flex items-center justify-between px-5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center">
+            <Camera className="w-5 h-5 mr-2 text-slate-500" />
+            Take a photo
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full text-slate-500" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-5">
+          <div className="relative aspect-video bg-slate-900 rounded-xl overflow-hidden flex items-center justify-center">
+            {error ? (
+              <p className="text-sm text-slate-200 px-8 text-center">{error}</p>
+            ) : (
+              <>
+                <video
+                  ref={videoRef}
+                  autoPlay
+                  playsInline
+                  muted
+                  onLoadedData={() => setIsReady(true)}
+                  className="w-full h-full object-contain"
+                />
+                {!isReady && <Loader2 className="absolute w-8 h-8 text-slate-400 animate-spin" />}
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="border-t p-4 flex justify-end shrink-0">
+          <button
+            onClick={capture}
+            disabled={!isReady || !!error}
+            className="flex items-center px-5 py-2 text-sm font-medium bg-slate-900 text-white rounded-lg hover:bg-slate-800 disabled:opacity-50"
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            Capture
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
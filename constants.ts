@@ -1,4 +1,4 @@
-import { AnnotationColor } from "./types";
+import { AnnotationColor, AppSettings, PromptLibrary } from "./types";
 
 export const COLOR_MAP: Record<AnnotationColor, string> = {
   red: '#FF3B30',
@@ -6,12 +6,96 @@ export const COLOR_MAP: Record<AnnotationColor, string> = {
   cyan: '#5AC8FA',
 };
 
-export const DEFAULT_INSTRUCTION_TEMPLATE = (color: string) => 
-  `Read and interpret all ${color} text annotations within the image. For each annotation, apply the requested modification only to the corresponding highlighted area. Do not alter or modify any other part of the image. Ensure that all edits blend naturally and look realistic, preserving original lighting, shadows, and textures. After applying all modifications, remove every ${color} text annotation and its corresponding ${color} box so that no editing marks remain visible in the final image.`;
+export const ANNOTATION_COLORS: AnnotationColor[] = ['red', 'yellow', 'cyan'];
 
-export const CLEAN_UP_INSTRUCTION = (color: string) =>
-  `Remove any remaining ${color} text and ${color} boxes without changing image content.`;
+export const DEFAULT_COLOR_MEANINGS: Record<AnnotationColor, string> = {
+  red: 'Modify the content inside the box as described by its note.',
+  yellow: 'Remove the object inside the box and fill the area so it blends with its surroundings.',
+  cyan: 'Keep the content inside the box exactly as it is. Do not modify it.',
+};
+
+// {color} is the list of mark colors used, {count} the number of annotations
+export const DEFAULT_INSTRUCTION_TEMPLATE =
+  'Read and interpret all {color} text annotations within the image. For each annotation, apply the requested modification only to the corresponding highlighted area. Do not alter or modify any other part of the image. Ensure that all edits blend naturally and look realistic, preserving original lighting, shadows, and textures. After applying all modifications, remove every {color} text annotation and its corresponding {color} box so that no editing marks remain visible in the final image.';
+
+// "red", "red and cyan", "red, yellow and cyan"
+export const formatColorList = (colors: string[]) =>
+  colors.length <= 1 ? (colors[0] || '') : `${colors.slice(0, -1).join(', ')} and ${colors[colors.length - 1]}`;
+
+export const COLOR_MEANINGS_INSTRUCTION = (meanings: [string, string][]) =>
+  `Each annotation color has a specific meaning:\n${meanings.map(([color, meaning]) => `- ${color} boxes: ${meaning}`).join('\n')}`;
+
+export const ANNOTATION_LIST_INSTRUCTION = (lines: string[]) =>
+  `Each annotation is labeled with a number in the image. Besides boxes, annotations may be ellipses, polygons or translucent brush strokes; the marked region is the inside of the shape or the area the brush covered. Callout notes sit outside the area they describe and point at it with an arrow; apply their instruction where the arrow points and leave the pixels under the note unchanged. The same annotations are listed below with their bounding coordinates normalized to the image size (x, y, width, height, each from 0 to 1, origin at the top left). If the text in the image is hard to read, use this list:\n${lines.join('\n')}`;
+
+export const REFERENCE_IMAGES_INSTRUCTION = (wholeEdit: number[]) =>
+  `The first image is the one to edit. The images after it are numbered references showing what to use (a product, logo, texture or style); do not edit them or copy their backgrounds. Annotations that use a reference say so below.${
+    wholeEdit.length > 0 ? ` Reference ${formatColorList(wholeEdit.map(String))} ${wholeEdit.length === 1 ? 'applies' : 'apply'} to the whole edit.` : ''}`;
+
+// {color} is the list of leftover mark colors, {count} how many there are
+export const CLEAN_UP_INSTRUCTION =
+  'Remove any remaining {color} text and {color} boxes without changing image content.';
+
+// Max RGB distance for a pixel to count as a leftover mark
+export const RESIDUE_COLOR_TOLERANCE = 70;
+// Fraction of scanned pixels that must match before we call it residue
+export const RESIDUE_MIN_RATIO = 0.01;
+export const RESIDUE_MIN_PIXELS = 12;
+// How far the opacity read off a pixel may stray from BRUSH_OPACITY for it to
+// count as a leftover brush stroke
+export const RESIDUE_BLEND_TOLERANCE = 0.12;
 
 export const MAX_IMAGE_DIMENSION = 4096;
+// Uploads: file size as promised on the upload screen, and the pixel
+// dimensions a canvas can reliably hold
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const MAX_SOURCE_DIMENSION = 16384;
+export const MIN_IMAGE_DIMENSION = 16;
+// Reference images are sent next to the edited image; the model does best
+// with only a few, and they don't need to be large
+export const MAX_REFERENCE_IMAGES = 3;
+export const REFERENCE_MAX_DIMENSION = 1024;
+// Crop-and-stitch: context added around each region, as a fraction of its
+// longer side, the smallest crop sent, and how far into a crop its edges
+// fade when blended back
+export const TILE_CONTEXT_RATIO = 0.5;
+export const TILE_MIN_SIZE = 512;
+export const TILE_FEATHER_RATIO = 0.1;
 export const STROKE_WIDTH = 3;
+// Brush strokes are translucent so the model still sees what is underneath
+export const BRUSH_OPACITY = 0.45;
+export const DEFAULT_BRUSH_SIZE = 32; // Image pixels
 export const FONT_SIZE_BASE = 24; // Base font size for scaling
+
+export const SETTINGS_STORAGE_KEY = 'nanobanana.settings';
+export const LIBRARY_STORAGE_KEY = 'nanobanana.library';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: 'gemini',
+  strictRegions: false,
+  featherMargin: 12,
+  colorMeanings: DEFAULT_COLOR_MEANINGS,
+  batchConcurrency: 2,
+  requestTimeoutSec: 90,
+  maxRetries: 2,
+  variations: 1,
+  cropAndStitch: false,
+  exportFormat: 'png',
+  exportQuality: 92,
+  exportFilenamePattern: 'nanobanana-{render}',
+};
+
+export const APP_NAME = 'NanoBanana Red-Box Editor';
+
+export const DEFAULT_LIBRARY: PromptLibrary = {
+  snippets: [
+    { id: 'remove-person', shortcut: 'remove', text: 'Remove the person and fill in the background.' },
+    { id: 'sunset-sky', shortcut: 'sky', text: 'Replace the sky with a warm sunset.' },
+    { id: 'text-say', shortcut: 'text', text: 'Make the text say "".' },
+  ],
+  templates: [
+    { id: 'default-edit', name: 'Default', kind: 'edit', body: DEFAULT_INSTRUCTION_TEMPLATE },
+    { id: 'default-cleanup', name: 'Default', kind: 'cleanup', body: CLEAN_UP_INSTRUCTION },
+  ],
+  activeTemplates: { edit: 'default-edit', cleanup: 'default-cleanup' },
+};
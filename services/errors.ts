@@ -0,0 +1,112 @@
+// Typed failures of an image edit request. `retryable` tells the request
+// layer whether trying again could help; `hint` is what the UI shows.
+
+export class ImageEditError extends Error {
+  readonly retryable: boolean;
+  readonly hint: string;
+
+  constructor(message: string, hint: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'ImageEditError';
+    this.hint = hint;
+    this.retryable = retryable;
+  }
+}
+
+export class MissingApiKeyError extends ImageEditError {
+  constructor() {
+    super(
+      "API Key not found. Please set the API_KEY environment variable.",
+      "No API key is configured. Set GEMINI_API_KEY in .env.local, or switch to the local mock provider in Settings."
+    );
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+export class QuotaExceededError extends ImageEditError {
+  constructor(message: string) {
+    super(message, "Rate limit or quota reached. Wait a minute and try again, or check your plan's quota.", true);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockedError extends ImageEditError {
+  constructor(reason: string) {
+    super(
+      `Request blocked by safety filters (${reason}).`,
+      "The model refused this edit for safety reasons. Rephrase the notes or choose a different region."
+    );
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NoImageReturnedError extends ImageEditError {
+  // What the model wrote instead, if anything
+  readonly modelText: string;
+
+  constructor(modelText: string = '') {
+    super(
+      modelText ? `No image generated. The model said: ${modelText}` : "No image generated in response.",
+      modelText
+        ? `The model answered without an image: "${modelText}"`
+        : "The model answered without an image. Try again, or make the notes more explicit.",
+      true
+    );
+    this.modelText = modelText;
+    this.name = 'NoImageReturnedError';
+  }
+}
+
+export class NetworkError extends ImageEditError {
+  constructor(message: string) {
+    super(message, "Couldn't reach the image service. Check your connection and try again.", true);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ImageEditError {
+  constructor(timeoutMs: number) {
+    super(
+      `Request timed out after ${Math.round(timeoutMs / 1000)}s.`,
+      "The model took too long to answer. Try again, or raise the timeout in Settings.",
+      true
+    );
+    this.name = 'TimeoutError';
+  }
+}
+
+export class CancelledError extends ImageEditError {
+  constructor() {
+    super("Request cancelled.", "Generation cancelled.");
+    this.name = 'CancelledError';
+  }
+}
+
+// How fetch reports a request that never got a response: "Failed to fetch"
+// (Chrome), "NetworkError when attempting to fetch resource." (Firefox),
+// "Load failed" (Safari), "fetch failed" (Node), plus socket error codes
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed|network request failed|fetch failed|ECONN|ETIMEDOUT|ENOTFOUND/i;
+
+// Maps whatever a provider threw onto one of the typed errors above
+export const classifyError = (error: unknown): ImageEditError => {
+  if (error instanceof ImageEditError) return error;
+
+  const isError = error instanceof Error || error instanceof DOMException;
+  const message = isError && error.message ? error.message : String(error);
+  // API errors from the SDK carry the HTTP status
+  const status = isError && 'status' in error && typeof error.status === 'number' ? error.status : undefined;
+
+  if (isError && error.name === 'AbortError') return new CancelledError();
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) return new QuotaExceededError(message);
+  if (status === 401 || status === 403 || /api key/i.test(message)) {
+    return new ImageEditError(message, "The API key was rejected. Check that it is valid and has access to the image model.");
+  }
+  // Only failures of the request itself; any other TypeError is a bug and
+  // retrying it would not help
+  if ((status !== undefined && status >= 500) || FETCH_FAILURE.test(message)) {
+    return new NetworkError(message);
+  }
+  return new ImageEditError(message || "Failed to process image.", message || "Something went wrong during generation.");
+};
+
+export const getErrorMessage = (error: unknown): string => classifyError(error).hint;
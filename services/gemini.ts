@@ -1,6 +1,48 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GoogleGenAI, Modality, GenerateContentResponse } from "@google/genai";
+import { ImageEditProvider, ImageEditOptions, ImageEditResult, EditCandidate } from "../types";
+import { MissingApiKeyError, NoImageReturnedError, SafetyBlockedError, classifyError } from "./errors";
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+// Collects every part of the response, not just the first image. The image
+// model doesn't take candidateCount, so there is one candidate per request;
+// several results come from variations, which are separate requests.
+const parseResponse = (response: GenerateContentResponse): ImageEditResult => {
+  const candidates: EditCandidate[] = (response.candidates || []).map(candidate => {
+    const parts = candidate.content?.parts || [];
+    return {
+      images: parts
+        .filter(part => part.inlineData?.data && !part.thought)
+        .map(part => `data:${part.inlineData!.mimeType || 'image/png'};base64,${part.inlineData!.data}`),
+      text: parts
+        .filter(part => part.text && !part.thought)
+        .map(part => part.text!.trim())
+        .join('\n\n'),
+      finishReason: candidate.finishReason || null,
+      safetyRatings: (candidate.safetyRatings || []).map(rating => ({
+        category: rating.category || 'UNKNOWN',
+        probability: rating.probability || 'UNKNOWN',
+        blocked: !!rating.blocked,
+      })),
+    };
+  });
+
+  const usage = response.usageMetadata;
+  return {
+    candidates,
+    usage: usage ? {
+      promptTokens: usage.promptTokenCount || 0,
+      outputTokens: usage.candidatesTokenCount || 0,
+      totalTokens: usage.totalTokenCount || 0,
+    } : null,
+  };
+};
+
+export class GeminiService implements ImageEditProvider {
+  readonly id = 'gemini';
+  readonly label = 'Gemini 2.5 Flash Image';
+  readonly description = 'Edits with gemini-2.5-flash-image. Requires an API key.';
 
-export class GeminiService {
   private ai: GoogleGenAI;
   private apiKey: string;
 
@@ -9,18 +51,33 @@ export class GeminiService {
     this.ai = new GoogleGenAI({ apiKey: this.apiKey });
   }
 
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
   async editImage(
     base64Image: string, 
     prompt: string,
-    mimeType: string = 'image/png'
-  ): Promise<string> {
+    mimeType: string = 'image/png',
+    options: ImageEditOptions = {}
+  ): Promise<ImageEditResult> {
     if (!this.apiKey) {
-      throw new Error("API Key not found. Please set the API_KEY environment variable.");
+      throw new MissingApiKeyError();
     }
 
     try {
       // Remove header if present (e.g., "data:image/png;base64,")
       const cleanBase64 = base64Image.split(',')[1] || base64Image;
+      // Each reference follows its label, so the prompt can refer to it by number
+      const referenceParts = (options.references || []).flatMap(ref => [
+        { text: ref.label },
+        {
+          inlineData: {
+            data: ref.src.split(',')[1] || ref.src,
+            mimeType: /^data:([^;,]+)/.exec(ref.src)?.[1] || 'image/png',
+          },
+        },
+      ]);
 
       const response = await this.ai.models.generateContent({
         model: 'gemini-2.5-flash-image',
@@ -32,28 +89,38 @@ export class GeminiService {
                 mimeType: mimeType,
               },
             },
+            ...referenceParts,
             {
               text: prompt,
             },
           ],
         },
         config: {
-          responseModalities: [Modality.IMAGE],
+          // TEXT too, so explanations and refusals come back instead of nothing
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+          abortSignal: options.signal,
         },
       });
 
-      const parts = response.candidates?.[0]?.content?.parts;
-      if (parts && parts.length > 0) {
-        const part = parts[0];
-        if (part.inlineData && part.inlineData.data) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason) {
+        throw new SafetyBlockedError(response.promptFeedback?.blockReasonMessage || blockReason);
+      }
+      const result = parseResponse(response);
+      const withImages = result.candidates.filter(c => c.images.length > 0);
+      if (withImages.length > 0) {
+        return { ...result, candidates: withImages };
       }
 
-      throw new Error("No image generated in response.");
+      // Nothing usable: report why, preferring the model's own words
+      const blocked = result.candidates.find(c => c.finishReason && SAFETY_FINISH_REASONS.includes(c.finishReason));
+      if (blocked) {
+        throw new SafetyBlockedError(blocked.text || blocked.finishReason!);
+      }
+      throw new NoImageReturnedError(result.candidates.map(c => c.text).filter(Boolean).join('\n\n'));
     } catch (error: any) {
       console.error("Gemini API Error:", error);
-      throw new Error(error.message || "Failed to process image with Gemini.");
+      throw classifyError(error);
     }
   }
 }
@@ -0,0 +1,77 @@
+import { HistoryItem } from "../types";
+import { expectArray, validateAnnotation } from "../utils/validate";
+
+const DB_NAME = 'nanobanana-editor';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export class HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error("IndexedDB is not available in this browser."));
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  // Newest first
+  async list(): Promise<HistoryItem[]> {
+    const store = await this.store('readonly');
+    const items = await promisifyRequest(store.getAll() as IDBRequest<HistoryItem[]>);
+    return items
+      .flatMap(item => {
+        // Records may predate annotation shapes or be otherwise unreadable
+        try {
+          const annotations = expectArray(item.annotations, 'annotations')
+            .map((ann, i) => validateAnnotation(ann, `annotations[${i}]`));
+          return [{ ...item, annotations }];
+        } catch (e) {
+          console.warn(`Skipping unreadable history item ${item.id}:`, e);
+          return [];
+        }
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async add(item: HistoryItem): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.put(item));
+  }
+
+  async remove(id: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await promisifyRequest(store.delete(id));
+  }
+}
+
+export const historyStore = new HistoryStore();
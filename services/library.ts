@@ -0,0 +1,151 @@
+import { PromptLibrary, PromptTemplate, PromptTemplateKind, Snippet } from "../types";
+import { DEFAULT_LIBRARY, LIBRARY_STORAGE_KEY } from "../constants";
+import { expectArray, expectObject, expectString, fail, isObject, ValidationError } from "../utils/validate";
+
+const LIBRARY_FORMAT = 'nanobanana-library';
+const LIBRARY_VERSION = 1;
+
+const TEMPLATE_KINDS: PromptTemplateKind[] = ['edit', 'cleanup'];
+
+export class LibraryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryFormatError';
+  }
+}
+
+const validateSnippet = (raw: unknown, path: string): Snippet => {
+  const snippet = expectObject(raw, path);
+  return {
+    id: expectString(snippet.id, `${path}.id`),
+    shortcut: expectString(snippet.shortcut, `${path}.shortcut`),
+    text: expectString(snippet.text, `${path}.text`),
+  };
+};
+
+const validateTemplate = (raw: unknown, path: string): PromptTemplate => {
+  const template = expectObject(raw, path);
+  const id = expectString(template.id, `${path}.id`);
+  const name = expectString(template.name, `${path}.name`);
+  const body = expectString(template.body, `${path}.body`);
+  const kind = TEMPLATE_KINDS.find(k => k === template.kind) ?? fail(`${path}.kind`, `must be one of ${TEMPLATE_KINDS.join(', ')}`);
+  return { id, name, kind, body };
+};
+
+// Falls back to a template that exists whenever the chosen one is gone
+const withValidActiveTemplates = (library: PromptLibrary): PromptLibrary => {
+  const activeTemplates = { ...library.activeTemplates };
+  TEMPLATE_KINDS.forEach(kind => {
+    const ofKind = library.templates.filter(t => t.kind === kind);
+    if (!ofKind.some(t => t.id === activeTemplates[kind])) {
+      activeTemplates[kind] = ofKind[0]?.id ?? DEFAULT_LIBRARY.activeTemplates[kind];
+    }
+  });
+  return { ...library, activeTemplates };
+};
+
+// Entries that fail their check are dropped so one corrupt item doesn't cost
+// the whole library
+const keepValid = <T>(raw: unknown, path: string, validate: (raw: unknown, path: string) => T): T[] =>
+  expectArray(raw, path).flatMap((item, i) => {
+    try {
+      return [validate(item, `${path}[${i}]`)];
+    } catch (e) {
+      console.warn("Skipping unreadable library entry:", e);
+      return [];
+    }
+  });
+
+// Lists missing from storage (saved before they existed) get the defaults
+const readStoredLibrary = (raw: unknown): PromptLibrary => {
+  const stored = expectObject(raw, 'library');
+  const active = isObject(stored.activeTemplates) ? stored.activeTemplates : {};
+  const activeTemplates = { ...DEFAULT_LIBRARY.activeTemplates };
+  TEMPLATE_KINDS.forEach(kind => {
+    const id = active[kind];
+    if (typeof id === 'string') activeTemplates[kind] = id;
+  });
+  return withValidActiveTemplates({
+    snippets: stored.snippets === undefined ? DEFAULT_LIBRARY.snippets : keepValid(stored.snippets, 'snippets', validateSnippet),
+    templates: stored.templates === undefined ? DEFAULT_LIBRARY.templates : keepValid(stored.templates, 'templates', validateTemplate),
+    activeTemplates,
+  });
+};
+
+export const loadLibrary = (): PromptLibrary => {
+  try {
+    const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    if (!raw) return DEFAULT_LIBRARY;
+    return readStoredLibrary(JSON.parse(raw));
+  } catch (e) {
+    console.error("Failed to load prompt library:", e);
+    return DEFAULT_LIBRARY;
+  }
+};
+
+export const saveLibrary = (library: PromptLibrary) => {
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+  } catch (e) {
+    console.error("Failed to save prompt library:", e);
+  }
+};
+
+// Body of the template in use, or the built-in wording if there is none
+export const getActiveTemplate = (library: PromptLibrary, kind: PromptTemplateKind): string => {
+  const template = library.templates.find(t => t.id === library.activeTemplates[kind] && t.kind === kind);
+  return template ? template.body : DEFAULT_LIBRARY.templates.find(t => t.kind === kind)!.body;
+};
+
+export const exportLibrary = (library: PromptLibrary): Blob =>
+  new Blob([JSON.stringify({
+    format: LIBRARY_FORMAT,
+    version: LIBRARY_VERSION,
+    snippets: library.snippets,
+    templates: library.templates,
+  }, null, 2)], { type: 'application/json' });
+
+const checkLibraryFile = (parsed: unknown): Pick<PromptLibrary, 'snippets' | 'templates'> => {
+  const raw = expectObject(parsed, 'file');
+  if (raw.format !== LIBRARY_FORMAT) fail('format', `must be "${LIBRARY_FORMAT}"`);
+  if (typeof raw.version !== 'number' || raw.version > LIBRARY_VERSION) {
+    throw new LibraryFormatError(`This library was saved by a newer version of the app (format ${raw.version}).`);
+  }
+  const snippets = expectArray(raw.snippets, 'snippets');
+  const templates = expectArray(raw.templates, 'templates');
+  return {
+    snippets: snippets.map((s, i) => validateSnippet(s, `snippets[${i}]`)),
+    templates: templates.map((t, i) => validateTemplate(t, `templates[${i}]`)),
+  };
+};
+
+export const parseLibrary = (json: string): Pick<PromptLibrary, 'snippets' | 'templates'> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new LibraryFormatError("Could not read library: the file is not JSON.");
+  }
+  try {
+    return checkLibraryFile(parsed);
+  } catch (e) {
+    if (e instanceof ValidationError) throw new LibraryFormatError(`Invalid library: ${e.message}.`);
+    throw e;
+  }
+};
+
+// Imported items replace ones with the same id; the rest are added
+export const mergeLibrary = (library: PromptLibrary, imported: Pick<PromptLibrary, 'snippets' | 'templates'>): PromptLibrary => {
+  const merge = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+    const byId = new Map(incoming.map(item => [item.id, item]));
+    return [
+      ...current.map(item => byId.get(item.id) || item),
+      ...incoming.filter(item => !current.some(c => c.id === item.id)),
+    ];
+  };
+  return withValidActiveTemplates({
+    ...library,
+    snippets: merge(library.snippets, imported.snippets),
+    templates: merge(library.templates, imported.templates),
+  });
+};
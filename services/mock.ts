@@ -0,0 +1,69 @@
+import { ImageEditProvider, ImageEditOptions, ImageEditResult } from "../types";
+import { COLOR_MAP } from "../constants";
+import { loadImage } from "../utils/canvas";
+import { fillAnnotationRegion } from "../utils/geometry";
+import { CancelledError } from "./errors";
+
+const TINT_ALPHA = 0.35;
+
+// Offline provider for UI development and CI. Returns the (flattened) input
+// with every annotated region tinted in its annotation color, so results are
+// deterministic and obviously fake.
+export class MockService implements ImageEditProvider {
+  readonly id = 'mock';
+  readonly label = 'Local mock';
+  readonly description = 'Tints the boxed regions locally. No network, no API quota.';
+
+  constructor(private latencyMs: number = 400) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async editImage(
+    base64Image: string,
+    _prompt: string,
+    mimeType: string = 'image/png',
+    options: ImageEditOptions = {}
+  ): Promise<ImageEditResult> {
+    const src = base64Image.startsWith('data:') ? base64Image : `data:${mimeType};base64,${base64Image}`;
+    const img = await loadImage(src);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    ctx.drawImage(img, 0, 0);
+    const annotations = options.annotations || [];
+    ctx.globalAlpha = TINT_ALPHA;
+    annotations.forEach(ann => {
+      ctx.fillStyle = COLOR_MAP[ann.color];
+      fillAnnotationRegion(ctx, ann, 0, annotations);
+    });
+    ctx.globalAlpha = 1;
+
+    // Simulate a round trip so loading states are visible
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(resolve, this.latencyMs);
+      options.signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      }, { once: true });
+    });
+
+    return {
+      candidates: [{
+        images: [canvas.toDataURL('image/png')],
+        text: `Mock edit: tinted ${annotations.length} ${annotations.length === 1 ? 'region' : 'regions'}.`,
+        finishReason: 'STOP',
+        safetyRatings: [],
+      }],
+      usage: null,
+    };
+  }
+}
+
+export const mockService = new MockService();
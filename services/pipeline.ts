@@ -0,0 +1,158 @@
+import { Annotation, AnnotationColor, AppSettings, ImageEditProvider, ImageEditResult, ReferenceImage } from "../types";
+import { flattenAnnotations, compositeRegions, getImageSize, loadImage } from "../utils/canvas";
+import { buildEditInstruction, buildCleanupInstruction, getReferenceParts } from "../utils/prompt";
+import { planTiles, cropTile, stitchTiles } from "../utils/tiles";
+import { scaleAnnotation } from "../utils/geometry";
+import { withRetry } from "./request";
+
+export interface EditRequest {
+  provider: ImageEditProvider;
+  settings: AppSettings;
+  // The unannotated image to edit
+  imageSrc: string;
+  annotations: Annotation[];
+  // Replaces the automatic prompt
+  prompt?: string;
+  // Runs a clean-up pass for these mark colors instead of an edit. The
+  // image is sent as is, since it already carries the marks.
+  cleanupColors?: AnnotationColor[];
+  // Wording from the prompt library; the built-in defaults otherwise
+  instructionTemplate?: string;
+  cleanupTemplate?: string;
+  // Attached to the whole request; annotations carry their own
+  references?: ReferenceImage[];
+  // Independent requests for the same input, run in parallel
+  variations?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+const mergeResults = (results: ImageEditResult[]): ImageEditResult => {
+  const usages = results.map(r => r.usage).filter(Boolean) as NonNullable<ImageEditResult['usage']>[];
+  return {
+    candidates: results.flatMap(r => r.candidates),
+    usage: usages.length === 0 ? null : {
+      promptTokens: usages.reduce((sum, u) => sum + u.promptTokens, 0),
+      outputTokens: usages.reduce((sum, u) => sum + u.outputTokens, 0),
+      totalTokens: usages.reduce((sum, u) => sum + u.totalTokens, 0),
+    },
+  };
+};
+
+// Flatten -> prompt -> provider -> (strict) composite
+export const runEdit = async ({
+  provider,
+  settings,
+  imageSrc,
+  annotations,
+  prompt,
+  cleanupColors,
+  instructionTemplate,
+  cleanupTemplate,
+  references = [],
+  variations = 1,
+  signal,
+  onRetry,
+}: EditRequest): Promise<ImageEditResult> => {
+  const isCleanup = !!cleanupColors;
+
+  let inputImageBase64 = imageSrc;
+  let instruction = prompt || '';
+
+  if (isCleanup) {
+    instruction = buildCleanupInstruction(cleanupColors!, cleanupTemplate);
+  } else {
+    // Describe every color present, not just the dominant one
+    inputImageBase64 = await flattenAnnotations(imageSrc, annotations);
+    instruction = instruction || buildEditInstruction(
+      annotations, await getImageSize(imageSrc), settings.colorMeanings, instructionTemplate, references
+    );
+  }
+  // A clean-up pass only needs the result
+  const referenceParts = isCleanup ? [] : getReferenceParts(annotations, references);
+
+  const requestOnce = () => withRetry(
+    attemptSignal => provider.editImage(inputImageBase64, instruction, 'image/png', {
+      annotations: isCleanup ? [] : annotations,
+      references: referenceParts,
+      signal: attemptSignal,
+    }),
+    {
+      signal,
+      timeoutMs: settings.requestTimeoutSec * 1000,
+      maxRetries: settings.maxRetries,
+      onRetry,
+    }
+  );
+
+  // Keep whichever variations succeeded; fail only if none did
+  const outcomes = await Promise.allSettled(Array.from({ length: Math.max(1, variations) }, requestOnce));
+  const succeeded = outcomes.flatMap(o => o.status === 'fulfilled' ? [o.value] : []);
+  if (succeeded.length === 0) throw (outcomes[0] as PromiseRejectedResult).reason;
+  const result = { ...mergeResults(succeeded), prompt: instruction };
+
+  // In strict mode, discard any change outside the annotated regions
+  if (settings.strictRegions && annotations.length > 0) {
+    const candidates = await Promise.all(result.candidates.map(async candidate => ({
+      ...candidate,
+      images: await Promise.all(candidate.images.map(image =>
+        compositeRegions(imageSrc, image, annotations, settings.featherMargin)
+      )),
+    })));
+    return { ...result, candidates };
+  }
+
+  return result;
+};
+
+export interface TiledEditRequest extends Omit<EditRequest, 'prompt' | 'variations'> {
+  // The image to crop from, at full resolution. `imageSrc` only tells what
+  // pixel grid the annotations were drawn on.
+  fullImageSrc: string;
+  onTileDone?: (done: number, total: number) => void;
+}
+
+// Crop-and-stitch: every cluster of nearby annotations is edited in its own
+// padded crop of the full-resolution image, then blended back in, so the
+// result keeps the original's dimensions and everything outside the crops
+// is untouched. Prompts are built per crop, so there is no custom prompt.
+export const runTiledEdit = async ({
+  fullImageSrc,
+  imageSrc,
+  annotations,
+  onTileDone,
+  ...request
+}: TiledEditRequest): Promise<ImageEditResult> => {
+  const [full, working] = await Promise.all([loadImage(fullImageSrc), getImageSize(imageSrc)]);
+  const size = { width: full.naturalWidth, height: full.naturalHeight };
+  const sx = size.width / working.width;
+  const sy = size.height / working.height;
+  const tiles = planTiles(annotations.map(a => scaleAnnotation(a, sx, sy)), size);
+
+  // One at a time: tiles of one image tend to hit the same rate limit
+  const results: ImageEditResult[] = [];
+  for (const tile of tiles) {
+    const crop = cropTile(full, tile);
+    results.push(await runEdit({ ...request, imageSrc: crop.imageSrc, annotations: crop.annotations }));
+    onTileDone?.(results.length, tiles.length);
+  }
+
+  const stitched = await stitchTiles(fullImageSrc, tiles.map((tile, i) => ({
+    rect: tile.rect,
+    imageSrc: results[i].candidates[0].images[0],
+  })));
+  const merged = mergeResults(results);
+  return {
+    candidates: [{
+      images: [stitched],
+      text: merged.candidates.map(c => c.text).filter(Boolean).join('\n\n'),
+      finishReason: merged.candidates[0]?.finishReason ?? null,
+      safetyRatings: merged.candidates.flatMap(c => c.safetyRatings),
+    }],
+    usage: merged.usage,
+    // Each crop had its own
+    prompt: results.length === 1
+      ? results[0].prompt
+      : results.map((r, i) => `Region ${i + 1}:\n${r.prompt ?? ''}`).join('\n\n'),
+  };
+};
@@ -0,0 +1,233 @@
+import { Annotation, AnnotationColor, EditVersion, ReferenceImage } from "../types";
+import { ANNOTATION_COLORS, DEFAULT_COLOR_MEANINGS } from "../constants";
+import { expectArray, expectNumber, expectObject, expectString, fail, Fields, isObject, validateAnnotation, validateReferences, ValidationError } from "../utils/validate";
+import { createZip, readZip, ZipEntry } from "../utils/zip";
+import { bytesToDataUrl, dataUrlToBytes, extensionForDataUrl } from "../utils/download";
+
+// .nbproj files are ZIPs holding manifest.json plus the images it references
+// under images/. A bare manifest with data URLs in place of paths (.json) is
+// accepted too.
+
+export const PROJECT_FORMAT = 'nanobanana-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.nbproj';
+
+const MANIFEST_NAME = 'manifest.json';
+
+export interface ProjectVersion {
+  id: string;
+  // Path inside the archive, or a data URL
+  baseImage: string;
+  // Full-resolution counterpart of a downscaled baseImage
+  fullImage?: string;
+  annotations: Annotation[];
+  generatedImage: string | null;
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string;
+  colorMeanings: Record<AnnotationColor, string>;
+  // A hand-edited prompt and the automatic prompt it was derived from
+  promptOverride: { prompt: string; basedOn: string } | null;
+  // Reference images for the whole request; src is a path or a data URL
+  references?: ReferenceImage[];
+  activeVersion: number;
+  versions: ProjectVersion[];
+}
+
+// The in-memory project: same as the manifest but every image is a data URL
+export interface Project {
+  colorMeanings: Record<AnnotationColor, string>;
+  promptOverride: { prompt: string; basedOn: string } | null;
+  references: ReferenceImage[];
+  activeVersion: number;
+  versions: EditVersion[];
+}
+
+export class ProjectFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+// Each entry upgrades a manifest from version N to N + 1. Add one whenever
+// PROJECT_VERSION is bumped so older files keep opening.
+const MIGRATIONS: Record<number, (manifest: Fields) => Fields> = {};
+
+const migrate = (raw: Fields, version: number): Fields => {
+  let manifest = raw;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new ProjectFormatError(`No migration from project version ${v}.`);
+    manifest = { ...step(manifest), version: v + 1 };
+  }
+  return manifest;
+};
+
+const validateVersion = (raw: unknown, path: string): ProjectVersion => {
+  const v = expectObject(raw, path);
+  const annotations = expectArray(v.annotations, `${path}.annotations`)
+    .map((a, j) => validateAnnotation(a, `${path}.annotations[${j}]`));
+
+  // A callout can only point into an annotation of its own version
+  annotations.forEach((a, j) => {
+    if (a.shape === 'callout' && a.targetId !== undefined && !annotations.some(other => other !== a && other.id === a.targetId)) {
+      fail(`${path}.annotations[${j}].targetId`, 'must reference another annotation in the project');
+    }
+  });
+
+  return {
+    id: expectString(v.id, `${path}.id`),
+    baseImage: expectString(v.baseImage, `${path}.baseImage`),
+    fullImage: v.fullImage === undefined ? undefined : expectString(v.fullImage, `${path}.fullImage`),
+    generatedImage: v.generatedImage === null ? null : expectString(v.generatedImage, `${path}.generatedImage`),
+    annotations,
+  };
+};
+
+const checkManifest = (raw: unknown): ProjectManifest => {
+  const fields = expectObject(raw, 'manifest');
+  if (fields.format !== PROJECT_FORMAT) fail('format', `must be "${PROJECT_FORMAT}"`);
+  const version = expectNumber(fields.version, 'version');
+  if (version > PROJECT_VERSION) {
+    throw new ProjectFormatError(`This project was saved by a newer version of the app (format ${version}).`);
+  }
+
+  const manifest = migrate(fields, version);
+
+  const rawVersions: unknown[] = Array.isArray(manifest.versions) && manifest.versions.length > 0
+    ? manifest.versions
+    : fail('versions', 'must be a non-empty array');
+  const versions = rawVersions.map((v, i) => validateVersion(v, `versions[${i}]`));
+
+  const activeVersion = typeof manifest.activeVersion === 'number' && Number.isInteger(manifest.activeVersion)
+    ? Math.max(0, Math.min(manifest.activeVersion, versions.length - 1))
+    : versions.length - 1;
+
+  const colorMeanings = { ...DEFAULT_COLOR_MEANINGS };
+  const savedMeanings = isObject(manifest.colorMeanings) ? manifest.colorMeanings : {};
+  ANNOTATION_COLORS.forEach(color => {
+    const meaning = savedMeanings[color];
+    if (typeof meaning === 'string') colorMeanings[color] = meaning;
+  });
+
+  const override = manifest.promptOverride;
+  const promptOverride = isObject(override) && typeof override.prompt === 'string' && typeof override.basedOn === 'string'
+    ? { prompt: override.prompt, basedOn: override.basedOn }
+    : null;
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: typeof manifest.createdAt === 'string' ? manifest.createdAt : new Date().toISOString(),
+    colorMeanings,
+    promptOverride,
+    references: manifest.references === undefined ? [] : validateReferences(manifest.references, 'references'),
+    activeVersion,
+    versions,
+  };
+};
+
+export const validateManifest = (raw: unknown): ProjectManifest => {
+  try {
+    return checkManifest(raw);
+  } catch (e) {
+    if (e instanceof ValidationError) throw new ProjectFormatError(`Invalid project: ${e.message}.`);
+    throw e;
+  }
+};
+
+export const exportProject = (project: Project): Blob => {
+  const entries: ZipEntry[] = [];
+  // The same image often appears twice (a result is the next step's base)
+  const paths = new Map<string, string>();
+
+  const addImage = (dataUrl: string, name: string): string => {
+    const existing = paths.get(dataUrl);
+    if (existing) return existing;
+    const path = `images/${name}.${extensionForDataUrl(dataUrl)}`;
+    entries.push({ name: path, data: dataUrlToBytes(dataUrl) });
+    paths.set(dataUrl, path);
+    return path;
+  };
+  const addReferences = (refs: ReferenceImage[]) =>
+    refs.map(ref => ({ ...ref, src: addImage(ref.src, `ref-${ref.id}`) }));
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: new Date().toISOString(),
+    colorMeanings: project.colorMeanings,
+    promptOverride: project.promptOverride,
+    references: addReferences(project.references),
+    activeVersion: project.activeVersion,
+    versions: project.versions.map((v, i) => ({
+      id: v.id,
+      baseImage: addImage(v.baseImage, `v${i + 1}-base`),
+      fullImage: v.fullImage ? addImage(v.fullImage, `v${i + 1}-full`) : undefined,
+      annotations: v.annotations.map(a => a.references ? { ...a, references: addReferences(a.references) } : a),
+      generatedImage: v.generatedImage ? addImage(v.generatedImage, `v${i + 1}-result`) : null,
+    })),
+  };
+
+  entries.unshift({ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+export const importProject = async (file: Blob): Promise<Project> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const isZip = head[0] === 0x50 && head[1] === 0x4b; // "PK"
+
+  let files = new Map<string, Uint8Array>();
+  let raw: unknown;
+  try {
+    if (isZip) {
+      files = await readZip(file);
+      const manifest = files.get(MANIFEST_NAME);
+      if (!manifest) throw new ProjectFormatError(`Invalid project: ${MANIFEST_NAME} is missing.`);
+      raw = JSON.parse(new TextDecoder().decode(manifest));
+    } else {
+      raw = JSON.parse(await file.text());
+    }
+  } catch (e: any) {
+    if (e instanceof ProjectFormatError) throw e;
+    throw new ProjectFormatError(`Could not read project: ${e.message}`);
+  }
+
+  const manifest = validateManifest(raw);
+
+  const resolveImage = (ref: string): string => {
+    if (ref.startsWith('data:')) return ref;
+    const bytes = files.get(ref);
+    if (!bytes) throw new ProjectFormatError(`Invalid project: image ${ref} is missing.`);
+    const extension = ref.split('.').pop()?.toLowerCase() || 'png';
+    return bytesToDataUrl(bytes, MIME_TYPES[extension] || 'image/png');
+  };
+  const resolveReferences = (refs: ReferenceImage[]) =>
+    refs.map(ref => ({ ...ref, src: resolveImage(ref.src) }));
+
+  return {
+    colorMeanings: manifest.colorMeanings,
+    promptOverride: manifest.promptOverride,
+    references: resolveReferences(manifest.references ?? []),
+    activeVersion: manifest.activeVersion,
+    versions: manifest.versions.map(v => ({
+      id: v.id,
+      baseImage: resolveImage(v.baseImage),
+      fullImage: v.fullImage ? resolveImage(v.fullImage) : undefined,
+      annotations: v.annotations.map(a => a.references ? { ...a, references: resolveReferences(a.references) } : a),
+      generatedImage: v.generatedImage ? resolveImage(v.generatedImage) : null,
+    })),
+  };
+};
@@ -0,0 +1,14 @@
+import { ImageEditProvider, ProviderId } from "../types";
+import { geminiService } from "./gemini";
+import { mockService } from "./mock";
+
+// To add a backend, implement ImageEditProvider, extend ProviderId and
+// register the instance here.
+const PROVIDERS: Record<ProviderId, ImageEditProvider> = {
+  gemini: geminiService,
+  mock: mockService,
+};
+
+export const listProviders = (): ImageEditProvider[] => Object.values(PROVIDERS);
+
+export const getProvider = (id: ProviderId): ImageEditProvider => PROVIDERS[id] || PROVIDERS.gemini;
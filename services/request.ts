@@ -0,0 +1,79 @@
+import { CancelledError, TimeoutError, classifyError } from "./errors";
+
+export interface RequestOptions {
+  // Aborts the whole request, including pending retries
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  onRetry?: (attempt: number, error: Error, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One attempt: `task` gets a signal that fires on cancellation or timeout.
+// We also race the task against it, for providers that ignore the signal.
+const attempt = <T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number, outer?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      controller.abort();
+      reject(new CancelledError());
+    };
+    const timer = timeoutMs > 0 ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs) : undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', onAbort);
+    };
+
+    if (outer?.aborted) return onAbort();
+    outer?.addEventListener('abort', onAbort, { once: true });
+
+    task(controller.signal).then(
+      value => { cleanup(); resolve(value); },
+      error => {
+        cleanup();
+        if (timedOut) reject(new TimeoutError(timeoutMs));
+        else if (outer?.aborted) reject(new CancelledError());
+        else reject(classifyError(error));
+      }
+    );
+  });
+};
+
+// Runs `task` with a timeout per attempt and exponential backoff (with
+// jitter) between attempts, retrying only errors marked retryable
+export const withRetry = async <T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  { signal, timeoutMs = 0, maxRetries = 0, baseDelayMs = 1000, onRetry }: RequestOptions = {}
+): Promise<T> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(task, timeoutMs, signal);
+    } catch (e) {
+      const error = classifyError(e);
+      if (!error.retryable || i >= maxRetries || signal?.aborted) throw error;
+      const delay = baseDelayMs * 2 ** i * (0.75 + Math.random() * 0.5);
+      onRetry?.(i + 1, error, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,61 @@
+import { AppSettings, ProviderId, StillExportFormat } from "../types";
+import { ANNOTATION_COLORS, DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY } from "../constants";
+import { isObject } from "../utils/validate";
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'mock'];
+const EXPORT_FORMATS: StillExportFormat[] = ['png', 'jpeg', 'webp'];
+
+// Keeps each stored setting that has the right type. Settings added in later
+// versions, and any that are corrupt, get their defaults.
+const readStoredSettings = (raw: unknown): AppSettings => {
+  const stored = isObject(raw) ? raw : {};
+  const number = (value: unknown, fallback: number) =>
+    typeof value === 'number' && isFinite(value) ? value : fallback;
+  const boolean = (value: unknown, fallback: boolean) =>
+    typeof value === 'boolean' ? value : fallback;
+  const oneOf = <T extends string>(options: T[], value: unknown, fallback: T): T =>
+    options.find(option => option === value) ?? fallback;
+
+  const colorMeanings = { ...DEFAULT_SETTINGS.colorMeanings };
+  const meanings = isObject(stored.colorMeanings) ? stored.colorMeanings : {};
+  ANNOTATION_COLORS.forEach(color => {
+    const meaning = meanings[color];
+    if (typeof meaning === 'string') colorMeanings[color] = meaning;
+  });
+
+  return {
+    provider: oneOf(PROVIDER_IDS, stored.provider, DEFAULT_SETTINGS.provider),
+    strictRegions: boolean(stored.strictRegions, DEFAULT_SETTINGS.strictRegions),
+    featherMargin: number(stored.featherMargin, DEFAULT_SETTINGS.featherMargin),
+    colorMeanings,
+    batchConcurrency: number(stored.batchConcurrency, DEFAULT_SETTINGS.batchConcurrency),
+    requestTimeoutSec: number(stored.requestTimeoutSec, DEFAULT_SETTINGS.requestTimeoutSec),
+    maxRetries: number(stored.maxRetries, DEFAULT_SETTINGS.maxRetries),
+    variations: number(stored.variations, DEFAULT_SETTINGS.variations),
+    cropAndStitch: boolean(stored.cropAndStitch, DEFAULT_SETTINGS.cropAndStitch),
+    exportFormat: oneOf(EXPORT_FORMATS, stored.exportFormat, DEFAULT_SETTINGS.exportFormat),
+    exportQuality: number(stored.exportQuality, DEFAULT_SETTINGS.exportQuality),
+    exportFilenamePattern: typeof stored.exportFilenamePattern === 'string'
+      ? stored.exportFilenamePattern
+      : DEFAULT_SETTINGS.exportFilenamePattern,
+  };
+};
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    return readStoredSettings(JSON.parse(raw));
+  } catch (e) {
+    console.error("Failed to load settings:", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save settings:", e);
+  }
+};
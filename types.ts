@@ -1,18 +1,79 @@
-export type Tool = 'select' | 'rect' | 'text';
+// Edge or corner of a selection box, by compass direction
+export type ResizeHandle = 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+export type Tool = 'select' | 'rect' | 'ellipse' | 'polygon' | 'brush' | 'text';
 
 export type AnnotationColor = 'red' | 'yellow' | 'cyan';
 
-export interface Annotation {
-  id: string;
-  x: number; // Image coordinates (pixels)
+export type AnnotationShape = 'rect' | 'ellipse' | 'polygon' | 'brush' | 'callout';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
   y: number;
   width: number;
   height: number;
+}
+
+// An image attached to show the model what to use, e.g. a product, logo
+// or texture
+export interface ReferenceImage {
+  id: string;
+  name: string;
+  src: string; // Data URL
+}
+
+interface AnnotationBase {
+  id: string;
   text: string;
   color: AnnotationColor;
+  // Kept in the editor but left out of the flattened image and the prompt
+  disabled?: boolean;
+  references?: ReferenceImage[];
+}
+
+// All geometry is in image coordinates (pixels)
+export interface RectAnnotation extends AnnotationBase, Rect {
+  shape: 'rect';
+}
+
+// Ellipse inscribed in x/y/width/height
+export interface EllipseAnnotation extends AnnotationBase, Rect {
+  shape: 'ellipse';
+}
+
+// Closed polygon, drawn by clicking vertices or as a freehand lasso
+export interface PolygonAnnotation extends AnnotationBase {
+  shape: 'polygon';
+  points: Point[];
+}
+
+// Freehand stroke; the region is everything the brush covered
+export interface BrushAnnotation extends AnnotationBase {
+  shape: 'brush';
+  points: Point[];
+  brushSize: number;
 }
 
+// Free-floating note (x/y/width/height) placed outside the region it
+// describes, with a leader arrow pointing at `target`
+export interface CalloutAnnotation extends AnnotationBase, Rect {
+  shape: 'callout';
+  target: Point;
+  // Radius of the ring marking the target when it isn't another annotation
+  targetRadius: number;
+  // The annotation the arrow points into, if any
+  targetId?: string;
+}
+
+export type Annotation = RectAnnotation | EllipseAnnotation | PolygonAnnotation | BrushAnnotation | CalloutAnnotation;
+
 export interface HistoryItem {
+  id: string;
   thumbnail: string;
   originalImage: string; // Base64 or Object URL
   generatedImage: string; // Base64 or Object URL
@@ -20,6 +81,195 @@ export interface HistoryItem {
   timestamp: number;
 }
 
+// One step in an iterative edit chain (v1 -> v2 -> ...). Each step edits the
+// previous step's result.
+export interface EditVersion {
+  id: string;
+  baseImage: string;
+  // The full-resolution image when baseImage had to be downscaled for editing
+  fullImage?: string;
+  annotations: Annotation[];
+  generatedImage: string | null;
+  // Undo history of this step, kept while moving between steps. Not saved
+  // with projects.
+  history?: EditHistory;
+}
+
+export type EditCommandKind =
+  | 'add' | 'move' | 'resize' | 'retarget' | 'text' | 'recolor' | 'delete'
+  | 'reorder' | 'toggle' | 'duplicate' | 'reference' | 'generate';
+
+// One annotation before and after a command; null where it didn't exist
+export interface AnnotationChange {
+  id: string;
+  before: Annotation | null;
+  after: Annotation | null;
+}
+
+// A reversible step in the edit history. Annotation commands store only the
+// annotations they touched, plus the order so deletes restore position.
+export interface EditCommand {
+  id: string;
+  kind: EditCommandKind;
+  label: string;
+  timestamp: number;
+  changes: AnnotationChange[];
+  orderBefore: string[];
+  orderAfter: string[];
+  // Generation steps only
+  resultBefore?: string | null;
+  resultAfter?: string | null;
+}
+
+// commands[0..index) are applied; the rest can be redone
+export interface EditHistory {
+  commands: EditCommand[];
+  index: number;
+}
+
+
+export interface ResidueRegion extends Rect {
+  annotationId: string;
+  color: AnnotationColor;
+  pixelCount: number;
+}
+
+export interface ResidueReport {
+  found: boolean;
+  colors: AnnotationColor[];
+  regions: ResidueRegion[];
+  // Size of the scanned result image, to map regions onto any display size
+  width: number;
+  height: number;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+// An extra image sent after the one being edited, introduced by `label`
+export interface ReferenceImagePart {
+  label: string;
+  src: string; // Data URL
+}
+
+export interface ImageEditOptions {
+  // The annotations that were flattened into the input image, for providers
+  // that want the geometry rather than OCR-ing it
+  annotations?: Annotation[];
+  references?: ReferenceImagePart[];
+  // Providers should stop work when this fires
+  signal?: AbortSignal;
+}
+
+export interface SafetyRating {
+  category: string;
+  probability: string;
+  blocked: boolean;
+}
+
+// One of the model's answers. A candidate can carry several images.
+export interface EditCandidate {
+  images: string[]; // Data URLs
+  // Any commentary or refusal the model wrote alongside the images
+  text: string;
+  finishReason: string | null;
+  safetyRatings: SafetyRating[];
+}
+
+export interface UsageInfo {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface ImageEditResult {
+  candidates: EditCandidate[];
+  usage: UsageInfo | null;
+  // The instructions actually sent, filled in by the pipeline
+  prompt?: string;
+}
+
+export interface ImageEditProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  readonly description: string;
+  isConfigured(): boolean;
+  editImage(
+    base64Image: string,
+    prompt: string,
+    mimeType?: string,
+    options?: ImageEditOptions
+  ): Promise<ImageEditResult>;
+}
+
+export interface AppSettings {
+  provider: ProviderId;
+  // Only keep generated pixels inside the annotated regions
+  strictRegions: boolean;
+  featherMargin: number; // Image pixels
+  // What each box color asks the model to do
+  colorMeanings: Record<AnnotationColor, string>;
+  // Parallel requests in batch mode
+  batchConcurrency: number;
+  requestTimeoutSec: number;
+  // Extra attempts after a retryable failure (rate limit, network, timeout)
+  maxRetries: number;
+  // Parallel requests per Generate click, to pick the best result from
+  variations: number;
+  // Edit each annotated region in a crop of the full-resolution image and
+  // blend it back, instead of sending the whole (downscaled) image
+  cropAndStitch: boolean;
+  // Defaults for the export dialog
+  exportFormat: StillExportFormat;
+  exportQuality: number; // 0-100, for JPEG and WebP
+  exportFilenamePattern: string;
+}
+
+export type StillExportFormat = 'png' | 'jpeg' | 'webp';
+export type AnimatedExportFormat = 'gif' | 'webp';
+
+// 'wipe' is an animation; the rest are still images
+export type ExportRender = 'result' | 'annotated' | 'side-by-side' | 'wipe';
+
+// A note typed often enough to keep. Typing /shortcut in a note offers it.
+export interface Snippet {
+  id: string;
+  shortcut: string;
+  text: string;
+}
+
+// 'edit' opens every edit prompt; 'cleanup' is the whole clean-up prompt
+export type PromptTemplateKind = 'edit' | 'cleanup';
+
+// Wording for a global instruction. {color} and {count} are filled in per
+// request.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  kind: PromptTemplateKind;
+  body: string;
+}
+
+export interface PromptLibrary {
+  snippets: Snippet[];
+  templates: PromptTemplate[];
+  // The template in use for each kind, by id
+  activeTemplates: Record<PromptTemplateKind, string>;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+// One image in a batch run that reuses the editor's annotations
+export interface BatchItem {
+  id: string;
+  name: string;
+  imageSrc: string;
+  width: number;
+  height: number;
+  status: BatchItemStatus;
+  result: string | null;
+  error: string | null;
+}
+
 export interface EditorState {
   image: HTMLImageElement | null; // The loaded image object
   imageSrc: string | null; // The source URL
@@ -27,8 +277,3 @@ export interface EditorState {
   height: number; // Natural height
   scale: number; // Display scale factor
 }
-
-export interface Point {
-  x: number;
-  y: number;
-}
\ No newline at end of file
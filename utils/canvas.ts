@@ -1,6 +1,7 @@
 import React from 'react';
-import { Annotation, AnnotationColor } from "../types";
+import { Annotation, AnnotationColor, CalloutAnnotation, Point } from "../types";
 import { COLOR_MAP, STROKE_WIDTH, FONT_SIZE_BASE, MAX_IMAGE_DIMENSION } from "../constants";
+import { getBounds, strokeAnnotation, fillAnnotationRegion, findCalloutTarget, resolveCalloutTarget, getLeaderLine } from "./geometry";
 
 export const loadImage = (src: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
@@ -12,35 +13,147 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => {
   });
 };
 
-export const downscaleImageIfNeeded = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      if (!e.target?.result) return reject("Failed to read file");
-      const img = await loadImage(e.target.result as string);
-      
-      let { width, height } = img;
-      if (width <= MAX_IMAGE_DIMENSION && height <= MAX_IMAGE_DIMENSION) {
-        resolve(e.target.result as string);
-        return;
-      }
-
-      const scale = Math.min(MAX_IMAGE_DIMENSION / width, MAX_IMAGE_DIMENSION / height);
-      width *= scale;
-      height *= scale;
-
-      const canvas = document.createElement('canvas');
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return reject("No canvas context");
-
-      ctx.drawImage(img, 0, 0, width, height);
-      resolve(canvas.toDataURL(file.type, 0.9));
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+export const getImageSize = async (src: string): Promise<{ width: number; height: number }> => {
+  const img = await loadImage(src);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+// RGBA of the image drawn at the given size
+export const readPixels = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Returns `src` itself when it already fits within `maxDimension`
+export const downscaleDataUrlIfNeeded = async (
+  src: string,
+  mimeType: string = 'image/png',
+  maxDimension: number = MAX_IMAGE_DIMENSION
+): Promise<string> => {
+  const img = await loadImage(src);
+
+  let { width, height } = img;
+  if (width <= maxDimension && height <= maxDimension) return src;
+
+  const scale = Math.min(maxDimension / width, maxDimension / height);
+  width *= scale;
+  height *= scale;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("No canvas context");
+
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL(mimeType, 0.9);
+};
+
+// Dynamic font size based on image size but clamped
+export const getAnnotationFontSize = (imageWidth: number) => Math.max(16, Math.floor(imageWidth / 50));
+
+// Number badge for an annotation, placed just above the top-left corner of
+// its bounds (or inside them when the shape touches the top edge)
+const drawNumberLabel = (
+  ctx: CanvasRenderingContext2D,
+  ann: Annotation,
+  label: string,
+  fontSize: number
+) => {
+  const bounds = getBounds(ann);
+  const size = Math.round(fontSize * 1.3);
+  const x = bounds.x - STROKE_WIDTH / 2;
+  const y = bounds.y - size - STROKE_WIDTH / 2 >= 0 ? bounds.y - size - STROKE_WIDTH / 2 : bounds.y + STROKE_WIDTH / 2;
+
+  ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+  const width = Math.max(size, ctx.measureText(label).width + fontSize * 0.6);
+
+  ctx.fillStyle = COLOR_MAP[ann.color];
+  ctx.fillRect(x, y, width, size);
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + width / 2, y + size / 2);
+  ctx.textAlign = 'start';
+};
+
+// Greedy word wrap for the context's current font
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const words = text.split(' ');
+  const lines: string[] = [];
+  let line = '';
+
+  for (let n = 0; n < words.length; n++) {
+    const testLine = line + words[n] + ' ';
+    const metrics = ctx.measureText(testLine);
+    const testWidth = metrics.width;
+    if (testWidth > maxWidth && n > 0) {
+      lines.push(line);
+      line = words[n] + ' ';
+    } else {
+      line = testLine;
+    }
+  }
+  lines.push(line);
+  return lines;
+};
+
+// Note with an opaque background so the model can read it, plus the leader
+// arrow to its target. The note grows downwards to fit its text.
+const drawCallout = (
+  ctx: CanvasRenderingContext2D,
+  callout: CalloutAnnotation,
+  annotations: Annotation[],
+  fontSize: number
+) => {
+  const target = resolveCalloutTarget(callout, annotations);
+  const color = COLOR_MAP[callout.color];
+  const padding = Math.round(fontSize * 0.4);
+
+  ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+  const lines = callout.text ? wrapText(ctx, callout.text, callout.width - padding * 2) : [];
+  const note = { ...callout, height: Math.max(callout.height, lines.length * fontSize * 1.2 + padding * 2) };
+  const [start, end] = getLeaderLine(note, target);
+
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = STROKE_WIDTH;
+
+  // Leader line and arrowhead
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const head = Math.max(10, fontSize * 0.8);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x - Math.cos(angle) * head * 0.5, end.y - Math.sin(angle) * head * 0.5);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(end.x - head * Math.cos(angle - Math.PI / 7), end.y - head * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 7), end.y - head * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+
+  if (!findCalloutTarget(callout, annotations)) {
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, callout.targetRadius, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  // Note
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.92)';
+  ctx.fillRect(note.x, note.y, note.width, note.height);
+  ctx.strokeRect(note.x, note.y, note.width, note.height);
+
+  ctx.fillStyle = '#111';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => ctx.fillText(line, note.x + padding, note.y + padding + i * fontSize * 1.2));
 };
 
 export const flattenAnnotations = async (
@@ -60,48 +173,123 @@ export const flattenAnnotations = async (
   ctx.drawImage(img, 0, 0);
 
   // Draw annotations
-  annotations.forEach(ann => {
+  annotations.forEach((ann, index) => {
     const color = COLOR_MAP[ann.color];
+    const bounds = getBounds(ann);
+    const fontSize = getAnnotationFontSize(img.width);
+
+    if (ann.shape === 'callout') {
+      drawCallout(ctx, ann, annotations, fontSize);
+      drawNumberLabel(ctx, ann, String(index + 1), Math.round(fontSize * 0.75));
+      return;
+    }
     
-    // Draw Box
+    // Draw Shape
     ctx.strokeStyle = color;
     ctx.lineWidth = STROKE_WIDTH;
-    ctx.strokeRect(ann.x, ann.y, ann.width, ann.height);
+    strokeAnnotation(ctx, ann);
+
+    // Number matches the annotation list in the prompt
+    drawNumberLabel(ctx, ann, String(index + 1), Math.round(fontSize * 0.75));
 
     // Draw Text
     if (ann.text) {
-      // Dynamic font size based on image size but clamped
-      const fontSize = Math.max(16, Math.floor(img.width / 50)); 
       ctx.font = `bold ${fontSize}px Inter, sans-serif`;
       ctx.fillStyle = color;
       ctx.textBaseline = 'top';
       
       // Simple text wrapping
-      const words = ann.text.split(' ');
-      let line = '';
-      let y = ann.y + 5; // Padding
-      const x = ann.x + 5; // Padding
-      const maxWidth = ann.width - 10;
-
-      for (let n = 0; n < words.length; n++) {
-        const testLine = line + words[n] + ' ';
-        const metrics = ctx.measureText(testLine);
-        const testWidth = metrics.width;
-        if (testWidth > maxWidth && n > 0) {
-          ctx.fillText(line, x, y);
-          line = words[n] + ' ';
-          y += fontSize * 1.2;
-        } else {
-          line = testLine;
-        }
-      }
-      ctx.fillText(line, x, y);
+      const x = bounds.x + 5; // Padding
+      wrapText(ctx, ann.text, bounds.width - 10).forEach((line, i) => {
+        ctx.fillText(line, x, bounds.y + 5 + i * fontSize * 1.2);
+      });
     }
   });
 
   return canvas.toDataURL(mimeType);
 };
 
+// Builds an alpha mask that is opaque inside every annotation shape and fades
+// out over `feather` pixels around it
+const buildRegionMask = (
+  width: number,
+  height: number,
+  annotations: Annotation[],
+  feather: number
+): HTMLCanvasElement => {
+  const mask = document.createElement('canvas');
+  mask.width = width;
+  mask.height = height;
+  const ctx = mask.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Expand by half the margin and blur across the other half, so the shape
+  // itself stays fully opaque. Browsers without ctx.filter get a hard edge.
+  const canBlur = feather > 0 && 'filter' in ctx;
+  const expand = canBlur ? feather / 2 : feather;
+  if (canBlur) ctx.filter = `blur(${feather / 4}px)`;
+
+  ctx.fillStyle = '#fff';
+  annotations.forEach(ann => fillAnnotationRegion(ctx, ann, expand, annotations));
+
+  return mask;
+};
+
+// Copies only the annotated regions of the generated image back onto the
+// original, so everything outside the boxes is guaranteed untouched.
+export const compositeRegions = async (
+  originalSrc: string,
+  generatedSrc: string,
+  annotations: Annotation[],
+  feather: number,
+  mimeType: string = 'image/png'
+): Promise<string> => {
+  const [original, generated] = await Promise.all([loadImage(originalSrc), loadImage(generatedSrc)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  // The model may answer at a different resolution; bring it back to the
+  // original's pixel grid before masking
+  const patch = document.createElement('canvas');
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext('2d');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx || !patchCtx) throw new Error("Could not get canvas context");
+
+  patchCtx.imageSmoothingQuality = 'high';
+  patchCtx.drawImage(generated, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(buildRegionMask(width, height, annotations, feather), 0, 0);
+
+  ctx.drawImage(original, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+
+  return canvas.toDataURL(mimeType);
+};
+
+export const createThumbnail = async (
+  imageSrc: string,
+  maxSize: number = 160
+): Promise<string> => {
+  const img = await loadImage(imageSrc);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
 export const getRelativePointerPosition = (
   event: React.MouseEvent | MouseEvent,
   element: HTMLElement
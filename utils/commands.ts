@@ -0,0 +1,146 @@
+import { Annotation, AnnotationChange, EditCommand, EditCommandKind, EditHistory } from "../types";
+import { SHAPE_LABELS } from "./geometry";
+
+// Oldest commands are dropped past this
+const HISTORY_LIMIT = 200;
+// Keystrokes in the same note this close together undo as one step
+const TEXT_COALESCE_MS = 1500;
+
+export const EMPTY_HISTORY: EditHistory = { commands: [], index: 0 };
+
+// What a command applies to
+export interface EditDocument {
+  annotations: Annotation[];
+  generatedImage: string | null;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describe = (kind: EditCommandKind, changes: AnnotationChange[], orderAfter: string[], orderBefore: string[]): string => {
+  // Only the order changes
+  if (kind === 'reorder') return 'Reorder annotations';
+  if (kind === 'generate') return 'Generate';
+
+  const subject = changes.length === 1
+    ? (() => {
+        const ann = (changes[0].after || changes[0].before)!;
+        const order = changes[0].after ? orderAfter : orderBefore;
+        return `${SHAPE_LABELS[ann.shape]} ${order.indexOf(ann.id) + 1}`;
+      })()
+    : plural(changes.length, 'annotation');
+
+  switch (kind) {
+    case 'add': return `Add ${subject}`;
+    case 'move': return `Move ${subject}`;
+    case 'resize': return `Resize ${subject}`;
+    case 'retarget': return `Point ${subject}`;
+    case 'text': return `Edit note of ${subject}`;
+    case 'recolor': return `Recolor ${subject}`;
+    case 'delete': return `Delete ${subject}`;
+    case 'duplicate': return `Duplicate ${subject}`;
+    case 'reference': return `Change references of ${subject}`;
+    case 'toggle':
+      if (changes.length > 1) return `Toggle ${subject}`;
+      return `${changes[0].after?.disabled ? 'Disable' : 'Enable'} ${subject}`;
+  }
+};
+
+// Builds the command that turns `before` into `after`, or null if nothing changed
+export const createAnnotationCommand = (
+  kind: EditCommandKind,
+  before: Annotation[],
+  after: Annotation[]
+): EditCommand | null => {
+  const beforeById = new Map(before.map(a => [a.id, a]));
+  const afterById = new Map(after.map(a => [a.id, a]));
+  const ids = Array.from(new Set([...beforeById.keys(), ...afterById.keys()]));
+
+  const changes: AnnotationChange[] = ids
+    .filter(id => beforeById.get(id) !== afterById.get(id))
+    .map(id => ({ id, before: beforeById.get(id) || null, after: afterById.get(id) || null }));
+  const orderBefore = before.map(a => a.id);
+  const orderAfter = after.map(a => a.id);
+  if (changes.length === 0 && orderBefore.join() === orderAfter.join()) return null;
+
+  return {
+    id: newId(),
+    kind,
+    label: describe(kind, changes, orderAfter, orderBefore),
+    timestamp: Date.now(),
+    changes,
+    orderBefore,
+    orderAfter,
+  };
+};
+
+export const createGenerationCommand = (annotations: Annotation[], resultBefore: string | null, resultAfter: string): EditCommand => {
+  const order = annotations.map(a => a.id);
+  return {
+    id: newId(),
+    kind: 'generate',
+    label: describe('generate', [], order, order),
+    timestamp: Date.now(),
+    changes: [],
+    orderBefore: order,
+    orderAfter: order,
+    resultBefore,
+    resultAfter,
+  };
+};
+
+// Adds a command after the current position, dropping anything that could
+// have been redone
+export const pushCommand = (history: EditHistory, command: EditCommand): EditHistory => {
+  const applied = history.commands.slice(0, history.index);
+  const last = applied[applied.length - 1];
+
+  if (
+    command.kind === 'text' && last?.kind === 'text' &&
+    command.changes.length === 1 && last.changes.length === 1 &&
+    command.changes[0].id === last.changes[0].id &&
+    command.timestamp - last.timestamp < TEXT_COALESCE_MS
+  ) {
+    const merged: EditCommand = {
+      ...last,
+      timestamp: command.timestamp,
+      changes: [{ ...last.changes[0], after: command.changes[0].after }],
+      orderAfter: command.orderAfter,
+    };
+    return { commands: [...applied.slice(0, -1), merged], index: applied.length };
+  }
+
+  const commands = [...applied, command].slice(-HISTORY_LIMIT);
+  return { commands, index: commands.length };
+};
+
+const applyCommand = (doc: EditDocument, command: EditCommand, forward: boolean): EditDocument => {
+  const byId = new Map(doc.annotations.map(a => [a.id, a]));
+  command.changes.forEach(change => {
+    const value = forward ? change.after : change.before;
+    if (value) byId.set(change.id, value);
+    else byId.delete(change.id);
+  });
+  const order = forward ? command.orderAfter : command.orderBefore;
+  // Anything the order doesn't know about keeps its place at the end
+  const annotations = [
+    ...order.map(id => byId.get(id)).filter(Boolean) as Annotation[],
+    ...Array.from(byId.values()).filter(a => !order.includes(a.id)),
+  ];
+
+  const generatedImage = command.kind === 'generate'
+    ? (forward ? command.resultAfter : command.resultBefore) ?? null
+    : doc.generatedImage;
+
+  return { annotations, generatedImage };
+};
+
+// Undoes or redoes commands until `target` of them are applied
+export const travel = (history: EditHistory, doc: EditDocument, target: number): { history: EditHistory; doc: EditDocument } => {
+  const to = Math.max(0, Math.min(history.commands.length, target));
+  let next = doc;
+  for (let i = history.index; i < to; i++) next = applyCommand(next, history.commands[i], true);
+  for (let i = history.index - 1; i >= to; i--) next = applyCommand(next, history.commands[i], false);
+  return { history: { ...history, index: to }, doc: next };
+};
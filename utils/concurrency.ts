@@ -0,0 +1,16 @@
+// Runs `worker` over every item with at most `limit` in flight. Rejections
+// are the worker's responsibility; one failure doesn't stop the rest.
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index).catch(e => console.error(e));
+    }
+  });
+  await Promise.all(runners);
+};
@@ -0,0 +1,60 @@
+import { loadImage, readPixels } from "./canvas";
+
+// Per-pixel change between two renders of the same image, at the size of
+// the second one
+export interface DifferenceMap {
+  width: number;
+  height: number;
+  // Largest channel difference per pixel, 0-255
+  magnitudes: Uint8Array;
+  // Luminance of the edited image, for context behind the heat
+  luminance: Uint8Array;
+}
+
+export const computeDifference = async (beforeSrc: string, afterSrc: string): Promise<DifferenceMap> => {
+  const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const width = after.naturalWidth;
+  const height = after.naturalHeight;
+  // The model may return a different resolution; compare at the result's
+  const a = readPixels(before, width, height);
+  const b = readPixels(after, width, height);
+
+  const magnitudes = new Uint8Array(width * height);
+  const luminance = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < magnitudes.length; i += 4, p++) {
+    magnitudes[p] = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+    luminance[p] = (b[i] * 77 + b[i + 1] * 150 + b[i + 2] * 29) >> 8;
+  }
+  return { width, height, magnitudes, luminance };
+};
+
+// Paints the map onto `canvas`: unchanged pixels as a dimmed grayscale of
+// the result, changes at or above `threshold` from yellow (small) to red
+// (large). Returns the fraction of pixels that changed.
+export const drawDifference = (canvas: HTMLCanvasElement, map: DifferenceMap, threshold: number): number => {
+  canvas.width = map.width;
+  canvas.height = map.height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const image = ctx.createImageData(map.width, map.height);
+  const out = image.data;
+  let changed = 0;
+  for (let p = 0, i = 0; p < map.magnitudes.length; p++, i += 4) {
+    const magnitude = map.magnitudes[p];
+    if (magnitude >= threshold && magnitude > 0) {
+      changed++;
+      const t = Math.min(1, magnitude / 128);
+      out[i] = 255;
+      out[i + 1] = Math.round(220 * (1 - t));
+      out[i + 2] = 0;
+    } else {
+      const gray = map.luminance[p] * 0.35;
+      out[i] = out[i + 1] = out[i + 2] = gray;
+    }
+    out[i + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return changed / map.magnitudes.length;
+};
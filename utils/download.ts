@@ -0,0 +1,39 @@
+export const downloadDataUrl = (dataUrl: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, filename);
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const base64 = dataUrl.split(',')[1] || dataUrl;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// "image/png" -> "png"
+export const extensionForDataUrl = (dataUrl: string): string => {
+  const match = /^data:image\/([a-z0-9.+-]+)/i.exec(dataUrl);
+  const subtype = match ? match[1].toLowerCase() : 'png';
+  return subtype === 'jpeg' ? 'jpg' : subtype.replace('+xml', '');
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
@@ -0,0 +1,215 @@
+import { Annotation, AnimatedExportFormat, ExportRender, StillExportFormat } from "../types";
+import { loadImage, flattenAnnotations } from "./canvas";
+import { fillTemplate, ImageSize } from "./prompt";
+import { encodeGif, GifFrame } from "./gif";
+import { addJpegMetadata, addPngMetadata, addWebpMetadata, ImageMetadata, writeAnimatedWebp } from "./metadata";
+
+export const MIME_TYPES: Record<StillExportFormat | AnimatedExportFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// Used in filenames through {render}
+export const RENDER_SLUGS: Record<ExportRender, string> = {
+  result: 'edit',
+  annotated: 'annotated',
+  'side-by-side': 'comparison',
+  wipe: 'wipe',
+};
+
+// Animations are kept small; every frame is a full image
+const WIPE_MAX_DIMENSION = 720;
+const WIPE_STEPS = 16;
+const WIPE_STEP_MS = 60;
+const WIPE_HOLD_MS = 900;
+
+export interface ExportRequest {
+  render: ExportRender;
+  stillFormat: StillExportFormat;
+  animatedFormat: AnimatedExportFormat;
+  quality: number; // 0-100
+  // The input before annotation, and the edit
+  before: string;
+  after: string;
+  annotations: Annotation[];
+  // Size to scale still renders up to, when the input was downscaled
+  upscaleTo: ImageSize | null;
+  metadata: ImageMetadata;
+}
+
+// Safari, for one, silently writes PNG when asked for WebP
+export const canEncode = (mimeType: string): boolean => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = 1;
+  return canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+};
+
+const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width);
+  canvas.height = Math.round(height);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.imageSmoothingQuality = 'high';
+  return [canvas, ctx];
+};
+
+const canvasToBytes = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error("Could not encode the image."));
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, mimeType, quality / 100);
+  });
+
+// Scales a still render to `target`, never down
+const fitTo = (width: number, height: number, target: ImageSize | null): ImageSize =>
+  target && target.width > width ? target : { width, height };
+
+const renderImage = async (src: string, target: ImageSize | null): Promise<HTMLCanvasElement> => {
+  const img = await loadImage(src);
+  const size = fitTo(img.naturalWidth, img.naturalHeight, target);
+  const [canvas, ctx] = createCanvas(size.width, size.height);
+  ctx.drawImage(img, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, fontSize: number) => {
+  ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+  ctx.textBaseline = 'top';
+  const padding = fontSize / 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(x, y, ctx.measureText(text).width + padding * 2, fontSize + padding * 2);
+  ctx.fillStyle = '#fff';
+  ctx.fillText(text, x + padding, y + padding);
+};
+
+// Before on the left, after on the right, both at the result's size
+const renderSideBySide = async (before: string, after: string, target: ImageSize | null): Promise<HTMLCanvasElement> => {
+  const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+  const { width, height } = fitTo(afterImg.naturalWidth, afterImg.naturalHeight, target);
+  const [canvas, ctx] = createCanvas(width * 2, height);
+  ctx.drawImage(beforeImg, 0, 0, width, height);
+  ctx.drawImage(afterImg, width, 0, width, height);
+
+  const fontSize = Math.max(14, Math.round(width / 40));
+  drawLabel(ctx, 'Before', fontSize, fontSize, fontSize);
+  drawLabel(ctx, 'After', width + fontSize, fontSize, fontSize);
+  return canvas;
+};
+
+// A divider sweeps across to reveal the result, pauses, and sweeps back
+const renderWipeFrames = async (before: string, after: string): Promise<{ canvas: HTMLCanvasElement; delayMs: number }[]> => {
+  const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+  const scale = Math.min(1, WIPE_MAX_DIMENSION / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+  const width = Math.round(afterImg.naturalWidth * scale);
+  const height = Math.round(afterImg.naturalHeight * scale);
+
+  const frameAt = (t: number, delayMs: number) => {
+    const [canvas, ctx] = createCanvas(width, height);
+    const x = Math.round(width * t);
+    ctx.drawImage(beforeImg, 0, 0, width, height);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, x, height);
+    ctx.clip();
+    ctx.drawImage(afterImg, 0, 0, width, height);
+    ctx.restore();
+    if (x > 0 && x < width) {
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(x - 1, 0, 2, height);
+    }
+    return { canvas, delayMs };
+  };
+
+  // Ease in and out so the divider doesn't jolt at the ends
+  const ease = (t: number) => (1 - Math.cos(Math.PI * t)) / 2;
+  const sweep = Array.from({ length: WIPE_STEPS - 1 }, (_, i) => ease((i + 1) / WIPE_STEPS));
+  return [
+    frameAt(0, WIPE_HOLD_MS),
+    ...sweep.map(t => frameAt(t, WIPE_STEP_MS)),
+    frameAt(1, WIPE_HOLD_MS),
+    ...sweep.reverse().map(t => frameAt(t, WIPE_STEP_MS)),
+  ];
+};
+
+const encodeStill = async (canvas: HTMLCanvasElement, format: StillExportFormat, quality: number, meta: ImageMetadata): Promise<Blob> => {
+  const bytes = await canvasToBytes(canvas, MIME_TYPES[format], quality);
+  // Tag whatever the browser actually produced
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+    return new Blob([addPngMetadata(bytes, meta)], { type: 'image/png' });
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return new Blob([addJpegMetadata(bytes, meta)], { type: 'image/jpeg' });
+  }
+  return new Blob([addWebpMetadata(bytes, meta, canvas.width, canvas.height)], { type: 'image/webp' });
+};
+
+const encodeAnimation = async (
+  frames: { canvas: HTMLCanvasElement; delayMs: number }[],
+  format: AnimatedExportFormat,
+  quality: number,
+  meta: ImageMetadata
+): Promise<Blob> => {
+  const { width, height } = frames[0].canvas;
+
+  if (format === 'webp' && canEncode(MIME_TYPES.webp)) {
+    const encoded = await Promise.all(frames.map(async ({ canvas, delayMs }) => ({
+      webp: await canvasToBytes(canvas, MIME_TYPES.webp, quality),
+      delayMs,
+    })));
+    return new Blob([writeAnimatedWebp(encoded, width, height, meta)], { type: 'image/webp' });
+  }
+
+  const gifFrames: GifFrame[] = frames.map(({ canvas, delayMs }) => ({
+    pixels: canvas.getContext('2d')!.getImageData(0, 0, width, height).data,
+    delayMs,
+  }));
+  return new Blob([encodeGif(width, height, gifFrames, meta.description)], { type: 'image/gif' });
+};
+
+export const renderExport = async (request: ExportRequest): Promise<Blob> => {
+  const { render, before, after, annotations, upscaleTo, quality, metadata } = request;
+
+  switch (render) {
+    case 'result':
+      return encodeStill(await renderImage(after, upscaleTo), request.stillFormat, quality, metadata);
+    case 'annotated':
+      return encodeStill(await renderImage(await flattenAnnotations(before, annotations), upscaleTo), request.stillFormat, quality, metadata);
+    case 'side-by-side':
+      return encodeStill(await renderSideBySide(before, after, upscaleTo), request.stillFormat, quality, metadata);
+    case 'wipe':
+      return encodeAnimation(await renderWipeFrames(before, after), request.animatedFormat, quality, metadata);
+  }
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Fills {name}, {render}, {date}, {time} and {version}, keeps the name safe
+// for any file system and adds the extension for `mimeType`
+export const formatExportFilename = (
+  pattern: string,
+  values: { name: string; render: ExportRender; version: number; date: Date },
+  mimeType: string
+): string => {
+  const { date } = values;
+  const base = fillTemplate(pattern, {
+    name: values.name,
+    render: RENDER_SLUGS[values.render],
+    version: `v${values.version}`,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+  }).replace(/[\\/:*?"<>|]+/g, '-').trim() || 'nanobanana';
+  return `${base}.${EXTENSIONS[mimeType] || 'png'}`;
+};
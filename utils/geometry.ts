@@ -0,0 +1,335 @@
+import { Annotation, AnnotationShape, CalloutAnnotation, Point, Rect, ResizeHandle } from "../types";
+import { BRUSH_OPACITY } from "../constants";
+
+const ELLIPSE_SEGMENTS = 48;
+
+// For callouts this is the note itself, not the arrow
+export const getBounds = (ann: Annotation): Rect => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'ellipse':
+    case 'callout':
+      return { x: ann.x, y: ann.y, width: ann.width, height: ann.height };
+    case 'polygon':
+    case 'brush': {
+      const pad = ann.shape === 'brush' ? ann.brushSize / 2 : 0;
+      const xs = ann.points.map(p => p.x);
+      const ys = ann.points.map(p => p.y);
+      const minX = Math.min(...xs) - pad;
+      const minY = Math.min(...ys) - pad;
+      return {
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) + pad - minX,
+        height: Math.max(...ys) + pad - minY,
+      };
+    }
+  }
+};
+
+// Smallest rect containing every annotation's bounds
+export const getUnionBounds = (anns: Annotation[]): Rect => {
+  const all = anns.map(getBounds);
+  const x = Math.min(...all.map(b => b.x));
+  const y = Math.min(...all.map(b => b.y));
+  return {
+    x,
+    y,
+    width: Math.max(...all.map(b => b.x + b.width)) - x,
+    height: Math.max(...all.map(b => b.y + b.height)) - y,
+  };
+};
+
+export const rectsIntersect = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+export const RESIZE_HANDLES: ResizeHandle[] = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+export const getHandlePoint = (bounds: Rect, handle: ResizeHandle): Point => ({
+  x: handle.includes('w') ? bounds.x : handle.includes('e') ? bounds.x + bounds.width : bounds.x + bounds.width / 2,
+  y: handle.includes('n') ? bounds.y : handle.includes('s') ? bounds.y + bounds.height : bounds.y + bounds.height / 2,
+});
+
+// Moves the edges named by the handle to `p`, keeping the opposite edges
+// where they are
+export const resizeBounds = (bounds: Rect, handle: ResizeHandle, p: Point, minSize: number): Rect => {
+  let left = bounds.x;
+  let top = bounds.y;
+  let right = bounds.x + bounds.width;
+  let bottom = bounds.y + bounds.height;
+  if (handle.includes('w')) left = Math.min(p.x, right - minSize);
+  if (handle.includes('e')) right = Math.max(p.x, left + minSize);
+  if (handle.includes('n')) top = Math.min(p.y, bottom - minSize);
+  if (handle.includes('s')) bottom = Math.max(p.y, top + minSize);
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const translateAnnotation = <T extends Annotation>(ann: T, dx: number, dy: number): T => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'ellipse':
+      return { ...ann, x: ann.x + dx, y: ann.y + dy };
+    case 'callout':
+      return { ...ann, x: ann.x + dx, y: ann.y + dy, target: { x: ann.target.x + dx, y: ann.target.y + dy } };
+    case 'polygon':
+    case 'brush':
+      return { ...ann, points: ann.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+  }
+};
+
+// Maps the annotation from its current bounds onto `bounds`, stretching
+// point-based shapes proportionally
+export const resizeAnnotation = <T extends Annotation>(ann: T, bounds: Rect): T => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'ellipse':
+    case 'callout':
+      return { ...ann, ...bounds };
+    case 'polygon':
+    case 'brush': {
+      const from = getBounds(ann);
+      const sx = from.width > 0 ? bounds.width / from.width : 1;
+      const sy = from.height > 0 ? bounds.height / from.height : 1;
+      return {
+        ...ann,
+        points: ann.points.map(p => ({
+          x: bounds.x + (p.x - from.x) * sx,
+          y: bounds.y + (p.y - from.y) * sy,
+        })),
+      };
+    }
+  }
+};
+
+// Scales the whole annotation around the image origin, e.g. when applying it
+// to an image of a different size
+export const scaleAnnotation = <T extends Annotation>(ann: T, sx: number, sy: number): T => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'ellipse':
+      return { ...ann, x: ann.x * sx, y: ann.y * sy, width: ann.width * sx, height: ann.height * sy };
+    case 'polygon':
+      return { ...ann, points: ann.points.map(p => ({ x: p.x * sx, y: p.y * sy })) };
+    case 'callout':
+      return {
+        ...ann,
+        x: ann.x * sx,
+        y: ann.y * sy,
+        width: ann.width * sx,
+        height: ann.height * sy,
+        target: { x: ann.target.x * sx, y: ann.target.y * sy },
+        targetRadius: ann.targetRadius * Math.sqrt(sx * sy),
+      };
+    case 'brush':
+      return {
+        ...ann,
+        points: ann.points.map(p => ({ x: p.x * sx, y: p.y * sy })),
+        brushSize: ann.brushSize * Math.sqrt(sx * sy),
+      };
+  }
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const isPointInPolygon = (p: Point, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// `tolerance` widens thin shapes so they stay clickable
+export const hitTestAnnotation = (ann: Annotation, p: Point, tolerance: number = 0): boolean => {
+  switch (ann.shape) {
+    case 'callout':
+      return hitTestAnnotation({ ...ann, shape: 'rect' }, p, tolerance);
+    case 'rect':
+      return p.x >= ann.x - tolerance && p.x <= ann.x + ann.width + tolerance &&
+        p.y >= ann.y - tolerance && p.y <= ann.y + ann.height + tolerance;
+    case 'ellipse': {
+      const rx = ann.width / 2 + tolerance;
+      const ry = ann.height / 2 + tolerance;
+      if (rx <= 0 || ry <= 0) return false;
+      const nx = (p.x - (ann.x + ann.width / 2)) / rx;
+      const ny = (p.y - (ann.y + ann.height / 2)) / ry;
+      return nx * nx + ny * ny <= 1;
+    }
+    case 'polygon':
+      return isPointInPolygon(p, ann.points) ||
+        getOutline(ann).some((a, i, all) => i > 0 && distanceToSegment(p, all[i - 1], a) <= tolerance);
+    case 'brush':
+      if (ann.points.length === 1) return Math.hypot(p.x - ann.points[0].x, p.y - ann.points[0].y) <= ann.brushSize / 2 + tolerance;
+      return ann.points.some((a, i) => i > 0 && distanceToSegment(p, ann.points[i - 1], a) <= ann.brushSize / 2 + tolerance);
+  }
+};
+
+// The line the shape's marks follow, as a polyline. Closed shapes repeat
+// their first point at the end.
+export const getOutline = (ann: Annotation): Point[] => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'callout':
+      return [
+        { x: ann.x, y: ann.y },
+        { x: ann.x + ann.width, y: ann.y },
+        { x: ann.x + ann.width, y: ann.y + ann.height },
+        { x: ann.x, y: ann.y + ann.height },
+        { x: ann.x, y: ann.y },
+      ];
+    case 'ellipse': {
+      const cx = ann.x + ann.width / 2;
+      const cy = ann.y + ann.height / 2;
+      return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return { x: cx + Math.cos(angle) * ann.width / 2, y: cy + Math.sin(angle) * ann.height / 2 };
+      });
+    }
+    case 'polygon':
+      return ann.points.length > 0 ? [...ann.points, ann.points[0]] : [];
+    case 'brush':
+      return ann.points;
+  }
+};
+
+// Fills the shape, grown by `expand` pixels, with the context's current
+// fillStyle. Used for masks and tints. `annotations` are the others being
+// drawn alongside, which decide whether a callout's target is among them.
+export const fillAnnotationRegion = (
+  ctx: CanvasRenderingContext2D,
+  ann: Annotation,
+  expand: number = 0,
+  annotations: Annotation[] = []
+) => {
+  ctx.save();
+  ctx.strokeStyle = ctx.fillStyle;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  switch (ann.shape) {
+    case 'rect':
+      ctx.fillRect(ann.x - expand, ann.y - expand, ann.width + expand * 2, ann.height + expand * 2);
+      break;
+    case 'ellipse':
+      ctx.beginPath();
+      ctx.ellipse(
+        ann.x + ann.width / 2,
+        ann.y + ann.height / 2,
+        Math.max(0, ann.width / 2 + expand),
+        Math.max(0, ann.height / 2 + expand),
+        0, 0, Math.PI * 2
+      );
+      ctx.fill();
+      break;
+    case 'polygon':
+      tracePolyline(ctx, ann.points, true);
+      ctx.fill();
+      if (expand > 0) {
+        ctx.lineWidth = expand * 2;
+        ctx.stroke();
+      }
+      break;
+    case 'brush':
+      tracePolyline(ctx, ann.points, false);
+      ctx.lineWidth = ann.brushSize + expand * 2;
+      ctx.stroke();
+      break;
+    case 'callout':
+      // The note covers pixels that must stay as they are. The region it
+      // describes is its target annotation, or else the ring at the target.
+      if (!findCalloutTarget(ann, annotations)) {
+        ctx.beginPath();
+        ctx.arc(ann.target.x, ann.target.y, ann.targetRadius + expand, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      break;
+  }
+
+  ctx.restore();
+};
+
+// Strokes the visible mark for the annotation with the context's current
+// strokeStyle/lineWidth. Brush strokes are painted translucent so the model
+// still sees what is underneath.
+export const strokeAnnotation = (ctx: CanvasRenderingContext2D, ann: Annotation) => {
+  switch (ann.shape) {
+    case 'rect':
+    case 'callout':
+      ctx.strokeRect(ann.x, ann.y, ann.width, ann.height);
+      break;
+    case 'ellipse':
+    case 'polygon':
+      tracePolyline(ctx, getOutline(ann), true);
+      ctx.stroke();
+      break;
+    case 'brush':
+      ctx.save();
+      ctx.globalAlpha = BRUSH_OPACITY;
+      ctx.lineJoin = 'round';
+      ctx.lineCap = 'round';
+      ctx.lineWidth = ann.brushSize;
+      tracePolyline(ctx, ann.points, false);
+      ctx.stroke();
+      ctx.restore();
+      break;
+  }
+};
+
+const tracePolyline = (ctx: CanvasRenderingContext2D, points: Point[], closed: boolean) => {
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  // A single point still needs a segment so round caps render a dot
+  if (points.length === 1) ctx.lineTo(points[0].x + 0.01, points[0].y);
+  if (closed) ctx.closePath();
+};
+
+// SVG path data for overlays, scaled to display pixels
+export const toSvgPath = (ann: Annotation, scale: number): string => {
+  const points = ann.shape === 'brush' ? ann.points : getOutline(ann);
+  const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x * scale},${p.y * scale}`).join(' ');
+  return ann.shape === 'brush' ? d : `${d} Z`;
+};
+
+export const SHAPE_LABELS: Record<AnnotationShape, string> = {
+  rect: 'box',
+  ellipse: 'ellipse',
+  polygon: 'polygon',
+  brush: 'brush stroke',
+  callout: 'callout note',
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Where the callout's arrow points. Follows the target annotation if it has
+// moved away from the stored target point.
+// The annotation a callout points at, when it is among `annotations`. A
+// target that was left out (disabled, or in another crop) doesn't count, and
+// the callout circles its stored point instead.
+export const findCalloutTarget = (callout: CalloutAnnotation, annotations: Annotation[]): Annotation | undefined =>
+  callout.targetId ? annotations.find(a => a.id === callout.targetId && a.id !== callout.id) : undefined;
+
+export const resolveCalloutTarget = (callout: CalloutAnnotation, annotations: Annotation[]): Point => {
+  const target = findCalloutTarget(callout, annotations);
+  if (!target || hitTestAnnotation(target, callout.target)) return callout.target;
+  const bounds = getBounds(target);
+  return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+};
+
+// The leader line from the edge of the note to the target
+export const getLeaderLine = (callout: CalloutAnnotation, target: Point): [Point, Point] => {
+  const start = {
+    x: clamp(target.x, callout.x, callout.x + callout.width),
+    y: clamp(target.y, callout.y, callout.y + callout.height),
+  };
+  return [start, target];
+};
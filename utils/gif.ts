@@ -0,0 +1,156 @@
+// Minimal animated GIF writer: one global 256-color palette built by median
+// cut over all frames, LZW-compressed frames, looping forever.
+
+export interface GifFrame {
+  // RGBA, width * height * 4
+  pixels: Uint8ClampedArray;
+  delayMs: number;
+}
+
+const PALETTE_SIZE = 256;
+// Pixels sampled across all frames when building the palette
+const PALETTE_SAMPLES = 30000;
+const MAX_CODE = 4096;
+
+type Color = [number, number, number];
+
+const buildPalette = (frames: GifFrame[]): Color[] => {
+  const samples: Color[] = [];
+  const perFrame = PALETTE_SAMPLES / frames.length;
+  frames.forEach(({ pixels }) => {
+    const step = Math.max(1, Math.floor(pixels.length / 4 / perFrame)) * 4;
+    for (let i = 0; i < pixels.length; i += step) samples.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+  });
+
+  // Split the box with the widest channel range at its median until there
+  // are enough boxes, then use each box's average
+  let boxes: Color[][] = [samples];
+  while (boxes.length < PALETTE_SIZE) {
+    let widest = -1, channel = 0, range = 0;
+    boxes.forEach((box, b) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        box.forEach(color => { min = Math.min(min, color[c]); max = Math.max(max, color[c]); });
+        if (max - min > range) { range = max - min; widest = b; channel = c; }
+      }
+    });
+    if (widest < 0) break;
+    const box = boxes[widest].sort((a, b) => a[channel] - b[channel]);
+    const mid = box.length >> 1;
+    boxes = [...boxes.slice(0, widest), box.slice(0, mid), box.slice(mid), ...boxes.slice(widest + 1)];
+  }
+
+  const palette = boxes.map(box => {
+    const sum = box.reduce((acc, c) => [acc[0] + c[0], acc[1] + c[1], acc[2] + c[2]], [0, 0, 0]);
+    return sum.map(v => Math.round(v / Math.max(1, box.length))) as Color;
+  });
+  while (palette.length < PALETTE_SIZE) palette.push([0, 0, 0]);
+  return palette;
+};
+
+// Maps pixels to palette indices, caching by 15-bit color
+const createIndexer = (palette: Color[]) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number): number => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] >= 0) return cache[key];
+    let best = 0, bestDistance = Infinity;
+    palette.forEach(([pr, pg, pb], i) => {
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2;
+      if (distance < bestDistance) { bestDistance = distance; best = i; }
+    });
+    cache[key] = best;
+    return best;
+  };
+};
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0, bits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xff);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode === MAX_CODE) {
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(endCode);
+  if (bits > 0) out.push(buffer & 0xff);
+  return out;
+};
+
+const uint16LE = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+// Data is stored in blocks of at most 255 bytes, ended by an empty one
+const subBlocks = (data: number[]): number[] => {
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.slice(i, i + 255);
+    out.push(block.length, ...block);
+  }
+  out.push(0);
+  return out;
+};
+
+export const encodeGif = (width: number, height: number, frames: GifFrame[], comment?: string): Uint8Array => {
+  const palette = buildPalette(frames);
+  const indexOf = createIndexer(palette);
+  const bytes: number[] = [];
+  const push = (data: ArrayLike<number>) => { for (let i = 0; i < data.length; i++) bytes.push(data[i]); };
+
+  push(Array.from('GIF89a', c => c.charCodeAt(0)));
+  // Global 256-color table, 8 bits per channel
+  push([...uint16LE(width), ...uint16LE(height), 0xf7, 0, 0]);
+  palette.forEach(color => push(color));
+  // Loop forever
+  push([0x21, 0xff, 0x0b, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0]);
+  if (comment) {
+    push([0x21, 0xfe]);
+    push(subBlocks(Array.from(comment, c => c.charCodeAt(0) < 0x80 ? c.charCodeAt(0) : 0x3f)));
+  }
+
+  frames.forEach(({ pixels, delayMs }) => {
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) indices[p] = indexOf(pixels[i], pixels[i + 1], pixels[i + 2]);
+
+    push([0x21, 0xf9, 0x04, 0, ...uint16LE(Math.round(delayMs / 10)), 0, 0]);
+    push([0x2c, 0, 0, 0, 0, ...uint16LE(width), ...uint16LE(height), 0]);
+    push([8]);
+    push(subBlocks(lzwEncode(indices, 8)));
+  });
+
+  push([0x3b]);
+  return new Uint8Array(bytes);
+};
@@ -0,0 +1,255 @@
+// Turns an uploaded file into the images a session works with: an upright
+// full-resolution image and a working copy within MAX_IMAGE_DIMENSION.
+// Files the model can take as they are pass through byte for byte, so
+// their quality and embedded color profile survive. Anything re-encoded
+// is drawn into an sRGB canvas, which converts it and drops the profile.
+import { ReferenceImage } from "../types";
+import { MAX_IMAGE_DIMENSION, MAX_UPLOAD_BYTES, MAX_SOURCE_DIMENSION, MIN_IMAGE_DIMENSION, REFERENCE_MAX_DIMENSION } from "../constants";
+import { downscaleDataUrlIfNeeded, loadImage } from "./canvas";
+import { bytesToDataUrl, dataUrlToBytes } from "./download";
+import { ImageSize } from "./prompt";
+import { decodeTiff, isTiff } from "./tiff";
+
+export class ImageIngestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageIngestError';
+  }
+}
+
+export interface IngestedImage {
+  // Upright, at full resolution. The uploaded file itself whenever the
+  // browser can draw it as is.
+  fullImage: string;
+  // What gets annotated and sent to the model
+  working: string;
+  originalSize: ImageSize;
+}
+
+type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'tiff' | 'avif' | 'heic';
+
+const FORMATS: Record<ImageFormat, { label: string; mimeType: string; lossy: boolean }> = {
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', lossy: true },
+  png: { label: 'PNG', mimeType: 'image/png', lossy: false },
+  gif: { label: 'GIF', mimeType: 'image/gif', lossy: false },
+  webp: { label: 'WebP', mimeType: 'image/webp', lossy: true },
+  bmp: { label: 'BMP', mimeType: 'image/bmp', lossy: false },
+  tiff: { label: 'TIFF', mimeType: 'image/tiff', lossy: false },
+  avif: { label: 'AVIF', mimeType: 'image/avif', lossy: true },
+  heic: { label: 'HEIC', mimeType: 'image/heic', lossy: true },
+};
+
+// Formats sent to the model without conversion
+const MODEL_FORMATS: ImageFormat[] = ['jpeg', 'png', 'webp'];
+
+const REENCODE_QUALITY = 0.92;
+
+// For file pickers; some systems don't report a type for the newer formats
+export const IMAGE_ACCEPT = 'image/*,.heic,.heif,.avif,.tif,.tiff';
+
+export const isImageFile = (file: File) =>
+  file.type.startsWith('image/') || /\.(heic|heif|avif|tiff?)$/i.test(file.name);
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// By content, since file extensions and reported types are unreliable
+const detectFormat = (bytes: Uint8Array): ImageFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(bytes, 0, 4) === '\x89PNG') return 'png';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'bmp';
+  if (isTiff(bytes)) return 'tiff';
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    // Major brand, then the compatible brands
+    const boxSize = new DataView(bytes.buffer, bytes.byteOffset).getUint32(0);
+    const brands: string[] = [];
+    for (let i = 8; i + 4 <= Math.min(boxSize, 64); i += 4) brands.push(ascii(bytes, i, 4));
+    if (brands.some(b => b === 'avif' || b === 'avis')) return 'avif';
+    if (brands.some(b => ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'].includes(b))) return 'heic';
+  }
+  return null;
+};
+
+// EXIF orientation (1-8) from a JPEG's APP1 segment; 1 when there is none
+const readJpegOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Start of scan: no more metadata
+    if (marker === 0xda) break;
+    if (marker === 0xe1 && ascii(bytes, offset + 4, 6) === 'Exif\0\0') {
+      const tiff = offset + 10;
+      // Truncated or bogus offsets are common enough in the wild; treat
+      // them as no orientation rather than failing the upload
+      if (tiff + 8 > bytes.length) return 1;
+      const little = bytes[tiff] === 0x49;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > bytes.length) return 1;
+      const count = view.getUint16(ifd, little);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > bytes.length) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const value = view.getUint16(entry + 8, little);
+          return value >= 1 && value <= 8 ? value : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+// Current browsers draw JPEGs upright on their own, older ones don't.
+// Found out once with a 2×1 image tagged as rotated a quarter turn.
+let appliesOrientation: Promise<boolean> | null = null;
+const browserAppliesOrientation = (): Promise<boolean> => {
+  appliesOrientation ??= (async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 1;
+    const jpeg = dataUrlToBytes(canvas.toDataURL('image/jpeg'));
+    const exif = Uint8Array.from([
+      0xff, 0xe1, 0x00, 0x22,
+      ...Array.from('Exif\0\0MM\0*', c => c.charCodeAt(0)), 0, 0, 0, 8,
+      0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6, 0, 0,
+      0, 0, 0, 0,
+    ]);
+    const tagged = new Uint8Array(jpeg.length + exif.length);
+    tagged.set(jpeg.subarray(0, 2));
+    tagged.set(exif, 2);
+    tagged.set(jpeg.subarray(2), 2 + exif.length);
+    try {
+      return (await loadImage(bytesToDataUrl(tagged, 'image/jpeg'))).naturalWidth === 1;
+    } catch {
+      return true;
+    }
+  })();
+  return appliesOrientation;
+};
+
+// Maps the stored pixels onto an upright canvas of the given size
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.setTransform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.setTransform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.setTransform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.setTransform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.setTransform(0, 1, -1, 0, width, 0); break;
+    case 7: ctx.setTransform(0, -1, -1, 0, width, height); break;
+    case 8: ctx.setTransform(0, -1, 1, 0, 0, height); break;
+  }
+};
+
+interface Decoded {
+  source: CanvasImageSource;
+  // As stored, before orientation
+  width: number;
+  height: number;
+  // Still to be applied when drawing
+  orientation: number;
+  isNative: boolean;
+}
+
+const decode = async (bytes: Uint8Array, format: ImageFormat, original: string): Promise<Decoded> => {
+  try {
+    const img = await loadImage(original);
+    const orientation = format === 'jpeg' && !(await browserAppliesOrientation()) ? readJpegOrientation(bytes) : 1;
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, orientation, isNative: true };
+  } catch {
+    // Only Safari shows TIFF; everywhere else it is decoded here
+    if (format !== 'tiff') {
+      throw new ImageIngestError(`This browser can't open ${FORMATS[format].label} images. Convert the file to JPEG or PNG and try again.`);
+    }
+  }
+
+  let tiff;
+  try {
+    tiff = decodeTiff(bytes);
+  } catch (e: any) {
+    throw new ImageIngestError(`Could not read this TIFF: ${e.message}`);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = tiff.width;
+  canvas.height = tiff.height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.putImageData(new ImageData(tiff.pixels, tiff.width, tiff.height), 0, 0);
+  return { source: canvas, width: tiff.width, height: tiff.height, orientation: tiff.orientation, isNative: false };
+};
+
+const render = (decoded: Decoded, size: ImageSize, mimeType: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d', { colorSpace: 'srgb' });
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.imageSmoothingQuality = 'high';
+  applyOrientation(ctx, decoded.orientation, size.width, size.height);
+  const isSideways = decoded.orientation >= 5;
+  ctx.drawImage(decoded.source, 0, 0, isSideways ? size.height : size.width, isSideways ? size.width : size.height);
+  return canvas.toDataURL(mimeType, REENCODE_QUALITY);
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1).replace(/\.0$/, '')} MB`;
+
+// `maxBytes` guards uploads; images made in the app (captures, imports)
+// are only held to the dimension limits
+export const ingestImage = async (blob: Blob, maxBytes: number | null = MAX_UPLOAD_BYTES): Promise<IngestedImage> => {
+  if (maxBytes !== null && blob.size > maxBytes) {
+    throw new ImageIngestError(`This file is ${formatMegabytes(blob.size)}. Files up to ${formatMegabytes(maxBytes)} are supported.`);
+  }
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const format = detectFormat(bytes);
+  if (!format) throw new ImageIngestError("This file isn't an image in a supported format.");
+
+  const original = bytesToDataUrl(bytes, FORMATS[format].mimeType);
+  const decoded = await decode(bytes, format, original);
+  const isSideways = decoded.orientation >= 5;
+  const size = isSideways ? { width: decoded.height, height: decoded.width } : { width: decoded.width, height: decoded.height };
+
+  if (Math.min(size.width, size.height) < MIN_IMAGE_DIMENSION) {
+    throw new ImageIngestError(`This image is ${size.width}×${size.height}. Images need to be at least ${MIN_IMAGE_DIMENSION} pixels on each side.`);
+  }
+  if (Math.max(size.width, size.height) > MAX_SOURCE_DIMENSION) {
+    throw new ImageIngestError(`This image is ${size.width}×${size.height}. Images up to ${MAX_SOURCE_DIMENSION} pixels on a side are supported.`);
+  }
+
+  const mimeType = FORMATS[format].lossy ? 'image/jpeg' : 'image/png';
+  const fullImage = decoded.isNative && decoded.orientation === 1 ? original : render(decoded, size, mimeType);
+
+  // The model reads pixels as stored, so EXIF rotation has to be baked in
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(size.width, size.height));
+  const isUpright = format !== 'jpeg' || readJpegOrientation(bytes) === 1;
+  const working = scale === 1 && isUpright && MODEL_FORMATS.includes(format) && fullImage === original
+    ? original
+    : render(decoded, { width: Math.round(size.width * scale), height: Math.round(size.height * scale) }, mimeType);
+
+  return { fullImage, working, originalSize: size };
+};
+
+export const ingestDataUrl = (src: string): Promise<IngestedImage> => {
+  const mimeType = /^data:([^;,]+)/.exec(src)?.[1] || 'image/png';
+  return ingestImage(new Blob([dataUrlToBytes(src)], { type: mimeType }), null);
+};
+
+// Same checks as an upload, then shrunk: a reference only has to show
+// what something looks like
+export const ingestReference = async (file: File): Promise<ReferenceImage> => {
+  const { working } = await ingestImage(file);
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: file.name,
+    src: await downscaleDataUrlIfNeeded(working, 'image/png', REFERENCE_MAX_DIMENSION),
+  };
+};
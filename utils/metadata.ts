@@ -0,0 +1,176 @@
+// Byte-level edits to exported PNG, JPEG and WebP files: metadata chunks
+// and the animated WebP container.
+import { crc32 } from "./zip";
+
+// What gets written into exported files so an image can be traced back to
+// the edit that produced it
+export interface ImageMetadata {
+  description: string;
+  software: string;
+  created: Date;
+}
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+const uint32BE = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+const uint32LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, value >>> 24]);
+const uint24LE = (value: number) => new Uint8Array([value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff]);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const buildXmpPacket = (meta: ImageMetadata): string =>
+  `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+  `<x:xmpmeta xmlns:x="adobe:ns:meta/">` +
+  `<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">` +
+  `<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/">` +
+  `<xmp:CreatorTool>${escapeXml(meta.software)}</xmp:CreatorTool>` +
+  `<xmp:CreateDate>${meta.created.toISOString()}</xmp:CreateDate>` +
+  `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(meta.description)}</rdf:li></rdf:Alt></dc:description>` +
+  `</rdf:Description></rdf:RDF></x:xmpmeta><?xpacket end="r"?>`;
+
+// --- PNG ---
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const typeAndData = concat([ascii(type), data]);
+  return concat([uint32BE(data.length), typeAndData, uint32BE(crc32(typeAndData))]);
+};
+
+// tEXt is Latin-1 only; anything else becomes "?"
+const latin1 = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0) <= 0xff ? c.charCodeAt(0) : 0x3f);
+
+const textChunk = (keyword: string, text: string) =>
+  pngChunk('tEXt', concat([ascii(keyword), new Uint8Array([0]), latin1(text)]));
+
+// Uncompressed international text, used for the UTF-8 XMP packet
+const itxtChunk = (keyword: string, text: string) =>
+  pngChunk('iTXt', concat([ascii(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]));
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+// Adds the text right after IHDR, where readers that stop early still see it
+export const addPngMetadata = (png: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  const ihdrEnd = PNG_SIGNATURE_LENGTH + 12 + new DataView(png.buffer, png.byteOffset).getUint32(PNG_SIGNATURE_LENGTH);
+  return concat([
+    png.subarray(0, ihdrEnd),
+    textChunk('Software', meta.software),
+    textChunk('Description', meta.description),
+    textChunk('Creation Time', meta.created.toUTCString()),
+    itxtChunk('XML:com.adobe.xmp', buildXmpPacket(meta)),
+    png.subarray(ihdrEnd),
+  ]);
+};
+
+// --- JPEG ---
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+// A segment's length field can't describe more than this
+const JPEG_MAX_SEGMENT = 0xffff - 2;
+
+export const addJpegMetadata = (jpeg: Uint8Array, meta: ImageMetadata): Uint8Array => {
+  const payload = concat([ascii(XMP_NAMESPACE), encoder.encode(buildXmpPacket(meta))]);
+  // Long descriptions don't fit a single APP1 segment; leave the file alone
+  if (payload.length > JPEG_MAX_SEGMENT) return jpeg;
+  const length = payload.length + 2;
+  const segment = concat([new Uint8Array([0xff, 0xe1, length >> 8, length & 0xff]), payload]);
+
+  // After SOI, and after the JFIF APP0 segment if there is one
+  let insertAt = 2;
+  if (jpeg[2] === 0xff && jpeg[3] === 0xe0) insertAt = 4 + ((jpeg[4] << 8) | jpeg[5]);
+  return concat([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+// --- WebP ---
+
+export interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const readWebpChunks = (webp: Uint8Array): RiffChunk[] => {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+  const chunks: RiffChunk[] = [];
+  // Skip "RIFF", size and "WEBP"
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = String.fromCharCode(...webp.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type, data: webp.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+};
+
+export const riffChunk = ({ type, data }: RiffChunk): Uint8Array =>
+  concat([ascii(type), uint32LE(data.length), data, data.length & 1 ? new Uint8Array([0]) : new Uint8Array(0)]);
+
+export const writeWebp = (chunks: RiffChunk[]): Uint8Array => {
+  const body = concat(chunks.map(riffChunk));
+  return concat([ascii('RIFF'), uint32LE(body.length + 4), ascii('WEBP'), body]);
+};
+
+export const VP8X_FLAGS = { animation: 0x02, xmp: 0x04, alpha: 0x10 };
+
+export const vp8xChunk = (flags: number, width: number, height: number): RiffChunk => ({
+  type: 'VP8X',
+  data: concat([new Uint8Array([flags, 0, 0, 0]), uint24LE(width - 1), uint24LE(height - 1)]),
+});
+
+// Simple lossy/lossless files have no VP8X header, so one is added to
+// announce the XMP chunk
+export const addWebpMetadata = (webp: Uint8Array, meta: ImageMetadata, width: number, height: number): Uint8Array => {
+  const chunks = readWebpChunks(webp);
+  const xmp: RiffChunk = { type: 'XMP ', data: encoder.encode(buildXmpPacket(meta)) };
+
+  if (chunks[0]?.type === 'VP8X') {
+    const header = { ...chunks[0], data: chunks[0].data.slice() };
+    header.data[0] |= VP8X_FLAGS.xmp;
+    return writeWebp([header, ...chunks.slice(1).filter(c => c.type !== 'XMP '), xmp]);
+  }
+  const flags = VP8X_FLAGS.xmp | (chunks.some(c => c.type === 'VP8L') ? VP8X_FLAGS.alpha : 0);
+  return writeWebp([vp8xChunk(flags, width, height), ...chunks, xmp]);
+};
+
+export interface WebpFrame {
+  // A still WebP as encoded by the browser
+  webp: Uint8Array;
+  delayMs: number;
+}
+
+// Chunks that carry a still frame's pixels
+const FRAME_CHUNKS = ['ALPH', 'VP8 ', 'VP8L'];
+
+export const writeAnimatedWebp = (frames: WebpFrame[], width: number, height: number, meta: ImageMetadata): Uint8Array => {
+  const frameChunks = frames.map(frame => ({
+    ...frame,
+    chunks: readWebpChunks(frame.webp).filter(c => FRAME_CHUNKS.includes(c.type)),
+  }));
+  const hasAlpha = frameChunks.some(f => f.chunks.some(c => c.type !== 'VP8 '));
+  const flags = VP8X_FLAGS.animation | VP8X_FLAGS.xmp | (hasAlpha ? VP8X_FLAGS.alpha : 0);
+
+  return writeWebp([
+    vp8xChunk(flags, width, height),
+    // White background, loop forever
+    { type: 'ANIM', data: new Uint8Array([0xff, 0xff, 0xff, 0xff, 0, 0]) },
+    ...frameChunks.map(({ chunks, delayMs }) => ({
+      type: 'ANMF',
+      data: concat([
+        // Frame at the origin, full size, replacing the previous one
+        uint24LE(0), uint24LE(0), uint24LE(width - 1), uint24LE(height - 1), uint24LE(Math.round(delayMs)),
+        new Uint8Array([0x02]),
+        ...chunks.map(riffChunk),
+      ]),
+    })),
+    { type: 'XMP ', data: encoder.encode(buildXmpPacket(meta)) },
+  ]);
+};
@@ -0,0 +1,123 @@
+import { Annotation, AnnotationColor, ReferenceImage, ReferenceImagePart } from "../types";
+import {
+  ANNOTATION_COLORS,
+  DEFAULT_COLOR_MEANINGS,
+  DEFAULT_INSTRUCTION_TEMPLATE,
+  CLEAN_UP_INSTRUCTION,
+  COLOR_MEANINGS_INSTRUCTION,
+  ANNOTATION_LIST_INSTRUCTION,
+  REFERENCE_IMAGES_INSTRUCTION,
+  formatColorList,
+} from "../constants";
+import { findCalloutTarget, getBounds, resolveCalloutTarget, SHAPE_LABELS } from "./geometry";
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Colors present in the annotations, in palette order
+export const getUsedColors = (annotations: Annotation[]): AnnotationColor[] =>
+  ANNOTATION_COLORS.filter(color => annotations.some(a => a.color === color));
+
+// What actually gets drawn and described; disabled annotations only live
+// in the editor
+export const getEnabledAnnotations = (annotations: Annotation[]): Annotation[] =>
+  annotations.filter(a => !a.disabled);
+
+// Number shown for each enabled annotation, matching the labels drawn by
+// flattenAnnotations when it is given the enabled ones
+export const getAnnotationNumbers = (annotations: Annotation[]): Map<string, number> =>
+  new Map(getEnabledAnnotations(annotations).map((a, i) => [a.id, i + 1]));
+
+// Reference images in the order they are sent: the whole request's, then
+// each annotation's. `numbers` maps an annotation id to the numbers of its
+// references; '' holds the whole request's.
+const planReferences = (annotations: Annotation[], requestReferences: ReferenceImage[]) => {
+  const parts: ReferenceImagePart[] = [];
+  const numbers = new Map<string, number[]>();
+  const add = (key: string, refs: ReferenceImage[], purpose: string) => {
+    numbers.set(key, refs.map(ref => {
+      parts.push({ label: `Reference image ${parts.length + 1} (${purpose}):`, src: ref.src });
+      return parts.length;
+    }));
+  };
+  add('', requestReferences, 'for the whole edit');
+  annotations.forEach((ann, i) => add(ann.id, ann.references ?? [], `for annotation ${i + 1}`));
+  return { parts, numbers };
+};
+
+export const getReferenceParts = (annotations: Annotation[], requestReferences: ReferenceImage[] = []): ReferenceImagePart[] =>
+  planReferences(annotations, requestReferences).parts;
+
+export const countReferences = (annotations: Annotation[], requestReferences: ReferenceImage[] = []): number =>
+  getReferenceParts(annotations, requestReferences).length;
+
+// Replaces {name} with values[name]; unknown placeholders are left as typed
+export const fillTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name) => name in values ? String(values[name]) : match);
+
+const normalize = (value: number, size: number) => Math.min(1, Math.max(0, value / size)).toFixed(3);
+
+// One line per annotation. Numbering matches the labels drawn by
+// flattenAnnotations, i.e. the order of the array.
+export const formatAnnotationList = (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  referenceNumbers: Map<string, number[]> = new Map()
+): string[] =>
+  annotations.map((ann, i) => {
+    const bounds = getBounds(ann);
+    const coords = [
+      normalize(bounds.x, imageSize.width),
+      normalize(bounds.y, imageSize.height),
+      normalize(bounds.width, imageSize.width),
+      normalize(bounds.height, imageSize.height),
+    ].join(', ');
+    const note = ann.text.trim() ? JSON.stringify(ann.text.trim()) : '(no note)';
+    let where = ann.shape === 'rect' ? `at (${coords})` : `within bounds (${coords})`;
+
+    if (ann.shape === 'callout') {
+      // Only a target that is drawn too can be named; otherwise the ring is
+      const linked = findCalloutTarget(ann, annotations);
+      const targetIndex = linked ? annotations.indexOf(linked) : -1;
+      const target = resolveCalloutTarget(ann, annotations);
+      where = `at (${coords}) pointing at ${targetIndex >= 0
+        ? `annotation ${targetIndex + 1}`
+        : `the circled point (${normalize(target.x, imageSize.width)}, ${normalize(target.y, imageSize.height)})`}`;
+    }
+
+    const refs = referenceNumbers.get(ann.id) ?? [];
+    const use = refs.length > 0 ? ` (use reference ${formatColorList(refs.map(String))})` : '';
+    return `${i + 1}. ${ann.color} ${SHAPE_LABELS[ann.shape]} ${where}: ${note}${use}`;
+  });
+
+export const buildEditInstruction = (
+  annotations: Annotation[],
+  imageSize: ImageSize,
+  colorMeanings: Record<AnnotationColor, string> = DEFAULT_COLOR_MEANINGS,
+  template: string = DEFAULT_INSTRUCTION_TEMPLATE,
+  requestReferences: ReferenceImage[] = []
+): string => {
+  const colors = getUsedColors(annotations);
+  if (colors.length === 0) colors.push('red');
+
+  const meanings = colors.map(color => [
+    color,
+    colorMeanings[color]?.trim() || DEFAULT_COLOR_MEANINGS[color],
+  ] as [string, string]);
+
+  const references = planReferences(annotations, requestReferences);
+
+  return [
+    fillTemplate(template, { color: formatColorList(colors), count: annotations.length }),
+    COLOR_MEANINGS_INSTRUCTION(meanings),
+    ...(references.parts.length > 0 ? [REFERENCE_IMAGES_INSTRUCTION(references.numbers.get('') ?? [])] : []),
+    ANNOTATION_LIST_INSTRUCTION(formatAnnotationList(annotations, imageSize, references.numbers)),
+  ].join('\n\n');
+};
+
+export const buildCleanupInstruction = (
+  colors: AnnotationColor[],
+  template: string = CLEAN_UP_INSTRUCTION
+): string => fillTemplate(template, { color: formatColorList(colors), count: colors.length });
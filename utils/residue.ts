@@ -0,0 +1,189 @@
+import { Annotation, AnnotationColor, ResidueRegion, ResidueReport } from "../types";
+import {
+  COLOR_MAP,
+  STROKE_WIDTH,
+  BRUSH_OPACITY,
+  RESIDUE_BLEND_TOLERANCE,
+  RESIDUE_COLOR_TOLERANCE,
+  RESIDUE_MIN_RATIO,
+  RESIDUE_MIN_PIXELS,
+} from "../constants";
+import { loadImage, getAnnotationFontSize, readPixels } from "./canvas";
+import { getBounds, getOutline, findCalloutTarget, resolveCalloutTarget, getLeaderLine } from "./geometry";
+
+interface Zone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Where flattenAnnotations put marks for this annotation: a band along each
+// segment of its outline, the number label at the top-left of its bounds,
+// plus the block of text inside them
+const getMarkZones = (
+  ann: Annotation,
+  annotations: Annotation[],
+  sx: number,
+  sy: number,
+  sourceWidth: number
+): Zone[] => {
+  const bounds = getBounds(ann);
+  const x = bounds.x * sx;
+  const y = bounds.y * sy;
+  const width = bounds.width * sx;
+  const height = bounds.height * sy;
+  const stroke = ann.shape === 'brush' ? ann.brushSize / 2 : 0;
+  const band = Math.max(4, (STROKE_WIDTH * 2 + stroke) * sx);
+  const fontSize = getAnnotationFontSize(sourceWidth) * sx;
+
+  const outline = getOutline(ann).map(p => ({ x: p.x * sx, y: p.y * sy }));
+  const zones: Zone[] = outline.length === 1
+    ? [{ x: outline[0].x - band, y: outline[0].y - band, width: band * 2, height: band * 2 }]
+    : outline.slice(1).map((b, i) => {
+        const a = outline[i];
+        return {
+          x: Math.min(a.x, b.x) - band,
+          y: Math.min(a.y, b.y) - band,
+          width: Math.abs(b.x - a.x) + band * 2,
+          height: Math.abs(b.y - a.y) + band * 2,
+        };
+      });
+
+  zones.push({ x: x - band, y: y - fontSize * 1.5, width: fontSize * 2, height: fontSize * 3 }); // Number label
+
+  if (ann.shape === 'callout') {
+    // Leader arrow and target ring. The note text is dark, not annotation
+    // colored, so it needs no zone of its own.
+    const target = resolveCalloutTarget(ann, annotations);
+    const [a, b] = getLeaderLine(ann, target);
+    const head = fontSize;
+    zones.push({
+      x: Math.min(a.x, b.x) * sx - head,
+      y: Math.min(a.y, b.y) * sy - head,
+      width: Math.abs(b.x - a.x) * sx + head * 2,
+      height: Math.abs(b.y - a.y) * sy + head * 2,
+    });
+    if (!findCalloutTarget(ann, annotations)) {
+      const r = ann.targetRadius * sx + band;
+      zones.push({ x: target.x * sx - r, y: target.y * sy - r, width: r * 2, height: r * 2 });
+    }
+  } else if (ann.text) {
+    // Rough estimate of the wrapped text block
+    const lineWidth = Math.max(1, width - 10 * sx);
+    const lines = Math.ceil((ann.text.length * fontSize * 0.6) / lineWidth);
+    zones.push({ x, y, width, height: Math.min(height, lines * fontSize * 1.2 + 10 * sy) });
+  }
+
+  return zones;
+};
+
+// Scans the result for pixels in an annotation's color where the marks were
+// drawn. Pixels that already had that color in the original are ignored so a
+// red object under a red box is not mistaken for a leftover mark.
+export const detectResidue = async (
+  originalSrc: string,
+  resultSrc: string,
+  annotations: Annotation[],
+  tolerance: number = RESIDUE_COLOR_TOLERANCE
+): Promise<ResidueReport> => {
+  const [original, result] = await Promise.all([loadImage(originalSrc), loadImage(resultSrc)]);
+  const width = result.naturalWidth;
+  const height = result.naturalHeight;
+  const sx = width / original.naturalWidth;
+  const sy = height / original.naturalHeight;
+
+  const resultPixels = readPixels(result, width, height);
+  const originalPixels = readPixels(original, width, height);
+  const maxDistance = tolerance * tolerance;
+
+  const isNear = (data: Uint8ClampedArray, i: number, [r, g, b]: [number, number, number]) => {
+    const dr = data[i] - r;
+    const dg = data[i + 1] - g;
+    const db = data[i + 2] - b;
+    return dr * dr + dg * dg + db * db <= maxDistance;
+  };
+
+  // A brush stroke was painted translucent, so a leftover one is the
+  // annotation color blended over the original at BRUSH_OPACITY. Being merely
+  // close to that blend is not enough: an edit that recolors the area toward
+  // the mark color lands there too. Read the opacity back from each channel
+  // that differs enough from the mark color to measure it; paint left on top
+  // gives the same opacity in all of them, a repainted area does not.
+  const isBlendedMark = (i: number, rgb: [number, number, number]) => {
+    let measured = 0;
+    for (let c = 0; c < 3; c++) {
+      const span = rgb[c] - originalPixels[i + c];
+      if (Math.abs(span) < 40) continue;
+      const alpha = (resultPixels[i + c] - originalPixels[i + c]) / span;
+      if (Math.abs(alpha - BRUSH_OPACITY) > RESIDUE_BLEND_TOLERANCE) return false;
+      measured++;
+    }
+    return measured >= 2;
+  };
+
+  const isMark = (i: number, ann: Annotation, rgb: [number, number, number]) => {
+    if (isNear(resultPixels, i, rgb) && !isNear(originalPixels, i, rgb)) return true;
+    return ann.shape === 'brush' && isBlendedMark(i, rgb);
+  };
+
+  const regions: ResidueRegion[] = [];
+  // Zones overlap (outline segments, corners); stamp pixels so each is only
+  // counted once per annotation
+  const visited = new Uint8Array(width * height);
+
+  annotations.forEach((ann, index) => {
+    const stamp = (index % 255) + 1;
+    if (stamp === 1 && index > 0) visited.fill(0);
+    const rgb = hexToRgb(COLOR_MAP[ann.color]);
+    let scanned = 0;
+    let hits = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+
+    getMarkZones(ann, annotations, sx, sy, original.naturalWidth).forEach(zone => {
+      const x0 = Math.max(0, Math.floor(zone.x));
+      const y0 = Math.max(0, Math.floor(zone.y));
+      const x1 = Math.min(width, Math.ceil(zone.x + zone.width));
+      const y1 = Math.min(height, Math.ceil(zone.y + zone.height));
+
+      for (let py = y0; py < y1; py++) {
+        for (let px = x0; px < x1; px++) {
+          const pixel = py * width + px;
+          if (visited[pixel] === stamp) continue;
+          visited[pixel] = stamp;
+
+          const i = pixel * 4;
+          scanned++;
+          if (isMark(i, ann, rgb)) {
+            hits++;
+            minX = Math.min(minX, px);
+            minY = Math.min(minY, py);
+            maxX = Math.max(maxX, px);
+            maxY = Math.max(maxY, py);
+          }
+        }
+      }
+    });
+
+    if (hits >= Math.max(RESIDUE_MIN_PIXELS, scanned * RESIDUE_MIN_RATIO)) {
+      regions.push({
+        annotationId: ann.id,
+        color: ann.color,
+        x: minX,
+        y: minY,
+        width: maxX - minX + 1,
+        height: maxY - minY + 1,
+        pixelCount: hits,
+      });
+    }
+  });
+
+  const colors = Array.from(new Set(regions.map(r => r.color))) as AnnotationColor[];
+
+  return { found: regions.length > 0, colors, regions, width, height };
+};
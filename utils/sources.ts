@@ -0,0 +1,112 @@
+// Ways to get an image into the editor other than the file picker
+import { loadImage } from "./canvas";
+
+export class ImageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageImportError';
+  }
+}
+
+const canvasToDataUrl = (source: CanvasImageSource, width: number, height: number): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+};
+
+// Image files from a paste or drop; text and other files are left out
+export const getTransferImages = (data: DataTransfer | null): File[] =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+// Pasted text that is almost certainly an image: an inline image or a link
+// to a file with an image extension
+export const looksLikeImageLink = (text: string): boolean => {
+  try {
+    const url = new URL(text.trim());
+    if (url.protocol === 'data:') return url.href.startsWith('data:image/');
+    return (url.protocol === 'http:' || url.protocol === 'https:') &&
+      /\.(jpe?g|png|gif|webp|bmp|avif|heic|heif|tiff?)$/i.test(url.pathname);
+  } catch {
+    return false;
+  }
+};
+
+// Fields where a paste is ordinary text entry
+export const isTextField = (target: EventTarget | null): boolean =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+// Whether a plain image load works, without asking for CORS access
+const canDisplay = (url: string): Promise<boolean> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(true);
+    img.onerror = () => resolve(false);
+    img.src = url;
+  });
+
+export const isImageUrl = (text: string): boolean => {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'data:';
+  } catch {
+    return false;
+  }
+};
+
+// The image as a PNG data URL. Pixels of a cross-origin image can only be
+// read when its server sends CORS headers, so a failed load is retried
+// without them to tell a blocked image apart from a missing one.
+export const importImageFromUrl = async (url: string): Promise<string> => {
+  const trimmed = url.trim();
+  if (!isImageUrl(trimmed)) throw new ImageImportError("Enter an http(s) link to an image.");
+  if (trimmed.startsWith('data:image/')) return trimmed;
+
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(trimmed);
+  } catch {
+    if (await canDisplay(trimmed)) {
+      throw new ImageImportError(
+        "That site doesn't allow its images to be used by other apps (CORS). Save the image and upload the file instead."
+      );
+    }
+    throw new ImageImportError("Could not load an image from that link.");
+  }
+  return canvasToDataUrl(img, img.naturalWidth, img.naturalHeight);
+};
+
+// Used as the session name, e.g. for export filenames
+export const getUrlFileName = (url: string): string => {
+  try {
+    const last = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return last ? decodeURIComponent(last).replace(/\.[^.]+$/, '') : 'image';
+  } catch {
+    return 'image';
+  }
+};
+
+// The frame currently shown by a playing <video>
+export const captureVideoFrame = (video: HTMLVideoElement): string =>
+  canvasToDataUrl(video, video.videoWidth, video.videoHeight);
+
+export const getCameraErrorMessage = (e: unknown): string => {
+  if (!(e instanceof DOMException || e instanceof Error)) return "Could not start the camera.";
+  switch (e.name) {
+    case 'NotAllowedError':
+      return "Camera access was blocked. Allow it in the browser's site settings and try again.";
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return "No camera was found.";
+    case 'NotReadableError':
+      return "The camera is in use by another app.";
+    default:
+      return e.message || "Could not start the camera.";
+  }
+};
@@ -0,0 +1,200 @@
+// Baseline TIFF reader for browsers that can't display TIFF themselves:
+// first image only, 8 bits per sample, chunky grayscale/RGB(A), stored
+// uncompressed, PackBits or LZW.
+
+export class TiffDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TiffDecodeError';
+  }
+}
+
+export interface TiffImage {
+  width: number;
+  height: number;
+  // RGBA, width * height * 4
+  pixels: Uint8ClampedArray;
+  // EXIF-style orientation, 1 when the file doesn't say
+  orientation: number;
+}
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  orientation: 274,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfig: 284,
+  predictor: 317,
+  extraSamples: 338,
+};
+
+const COMPRESSION = { none: 1, lzw: 5, packBits: 32773 };
+const PHOTOMETRIC = { whiteIsZero: 0, blackIsZero: 1, rgb: 2 };
+
+// Bytes per value of each field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+export const isTiff = (bytes: Uint8Array) =>
+  (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+  (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42);
+
+const readIfd = (view: DataView, offset: number, little: boolean): Map<number, number[]> => {
+  const tags = new Map<number, number[]>();
+  const count = view.getUint16(offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type] ?? 1;
+    // Values that fit in four bytes are stored in place
+    const at = n * size <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (type === 3 || type === 8) values.push(view.getUint16(at + j * 2, little));
+      else if (type === 4 || type === 9) values.push(view.getUint32(at + j * 4, little));
+      else if (type === 1 || type === 6 || type === 7) values.push(view.getUint8(at + j));
+      else break;
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+const unpackBits = (data: Uint8Array, expected: number): Uint8Array => {
+  const out = new Uint8Array(expected);
+  let i = 0, o = 0;
+  while (i < data.length && o < expected) {
+    const n = (data[i++] << 24) >> 24;
+    if (n >= 0) {
+      out.set(data.subarray(i, i + n + 1).subarray(0, expected - o), o);
+      i += n + 1;
+      o += n + 1;
+    } else if (n !== -128) {
+      out.fill(data[i++], o, Math.min(expected, o + 1 - n));
+      o += 1 - n;
+    }
+  }
+  return out;
+};
+
+// MSB-first codes that widen one code early, as TIFF writers have always done
+const unLzw = (data: Uint8Array, expected: number): Uint8Array => {
+  const CLEAR = 256, END = 257;
+  const out = new Uint8Array(expected);
+  let o = 0;
+  let table: Uint8Array[] = [];
+  let codeSize = 9;
+  let previous: Uint8Array | null = null;
+  let bitPos = 0;
+
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => new Uint8Array([i]));
+    codeSize = 9;
+    previous = null;
+  };
+  const readCode = (): number => {
+    let code = 0;
+    for (let b = 0; b < codeSize; b++, bitPos++) {
+      const byte = data[bitPos >> 3] ?? 0;
+      code = (code << 1) | ((byte >> (7 - (bitPos & 7))) & 1);
+    }
+    return code;
+  };
+  const emit = (entry: Uint8Array) => {
+    out.set(entry.subarray(0, expected - o), o);
+    o += Math.min(entry.length, expected - o);
+  };
+
+  reset();
+  while (o < expected && bitPos + codeSize <= data.length * 8) {
+    const code = readCode();
+    if (code === END) break;
+    if (code === CLEAR) {
+      reset();
+      continue;
+    }
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push(Uint8Array.of(...previous, entry[0]));
+    } else if (previous && code === table.length) {
+      entry = Uint8Array.of(...previous, previous[0]);
+      table.push(entry);
+    } else {
+      throw new TiffDecodeError("Corrupt LZW data.");
+    }
+    emit(entry);
+    previous = entry;
+    if (table.length + 1 >= 1 << codeSize && codeSize < 12) codeSize++;
+  }
+  return out;
+};
+
+export const decodeTiff = (bytes: Uint8Array): TiffImage => {
+  if (!isTiff(bytes)) throw new TiffDecodeError("Not a TIFF file.");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const tags = readIfd(view, view.getUint32(4, little), little);
+  const get = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+
+  const width = get(TAG.width, 0);
+  const height = get(TAG.height, 0);
+  const samples = get(TAG.samplesPerPixel, 1);
+  const compression = get(TAG.compression, COMPRESSION.none);
+  const photometric = get(TAG.photometric, PHOTOMETRIC.blackIsZero);
+  const offsets = tags.get(TAG.stripOffsets) ?? [];
+  const counts = tags.get(TAG.stripByteCounts) ?? [];
+  const rowsPerStrip = get(TAG.rowsPerStrip, height);
+
+  if (!width || !height || offsets.length === 0) throw new TiffDecodeError("The TIFF has no image data.");
+  if ((tags.get(TAG.bitsPerSample) ?? [8]).some(b => b !== 8)) throw new TiffDecodeError("Only 8-bit TIFFs are supported.");
+  if (get(TAG.planarConfig, 1) !== 1) throw new TiffDecodeError("Planar TIFFs are not supported.");
+  if (!Object.values(COMPRESSION).includes(compression)) throw new TiffDecodeError("This TIFF compression is not supported.");
+  if (!Object.values(PHOTOMETRIC).includes(photometric)) throw new TiffDecodeError("Only grayscale and RGB TIFFs are supported.");
+
+  const rowBytes = width * samples;
+  const raw = new Uint8Array(rowBytes * height);
+  offsets.forEach((offset, s) => {
+    const start = s * rowsPerStrip * rowBytes;
+    if (start >= raw.length) return;
+    const expected = Math.min(rowsPerStrip * rowBytes, raw.length - start);
+    const data = bytes.subarray(offset, offset + (counts[s] ?? expected));
+    const strip = compression === COMPRESSION.lzw ? unLzw(data, expected)
+      : compression === COMPRESSION.packBits ? unpackBits(data, expected)
+      : data.subarray(0, expected);
+    raw.set(strip, start);
+  });
+
+  // Horizontal differencing: each sample is stored relative to the one before
+  if (get(TAG.predictor, 1) === 2) {
+    for (let y = 0; y < height; y++) {
+      const row = y * rowBytes;
+      for (let x = samples; x < rowBytes; x++) raw[row + x] = (raw[row + x] + raw[row + x - samples]) & 0xff;
+    }
+  }
+
+  const hasAlpha = (tags.get(TAG.extraSamples) ?? []).length > 0;
+  const colorSamples = photometric === PHOTOMETRIC.rgb ? 3 : 1;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < width * height; p++, i += samples) {
+    const o = p * 4;
+    if (colorSamples === 3) {
+      pixels[o] = raw[i];
+      pixels[o + 1] = raw[i + 1];
+      pixels[o + 2] = raw[i + 2];
+    } else {
+      const v = photometric === PHOTOMETRIC.whiteIsZero ? 255 - raw[i] : raw[i];
+      pixels[o] = pixels[o + 1] = pixels[o + 2] = v;
+    }
+    pixels[o + 3] = hasAlpha && samples > colorSamples ? raw[i + colorSamples] : 255;
+  }
+
+  return { width, height, pixels, orientation: get(TAG.orientation, 1) };
+};
@@ -0,0 +1,180 @@
+import { Annotation, Rect } from "../types";
+import { TILE_CONTEXT_RATIO, TILE_MIN_SIZE, TILE_FEATHER_RATIO, MAX_IMAGE_DIMENSION } from "../constants";
+import { findCalloutTarget, getBounds, rectsIntersect, resolveCalloutTarget, scaleAnnotation, translateAnnotation } from "./geometry";
+import { loadImage } from "./canvas";
+import { ImageSize } from "./prompt";
+
+// One crop of the full-resolution image and the annotations it edits
+export interface Tile {
+  // In full-resolution pixels
+  rect: Rect;
+  // In the crop's pixels, as sent to the model
+  annotations: Annotation[];
+}
+
+// A callout changes the image where its arrow points, and its note has to
+// be in the crop for the model to read it
+const getAffectedBounds = (ann: Annotation, all: Annotation[]): Rect => {
+  const bounds = getBounds(ann);
+  if (ann.shape !== 'callout') return bounds;
+  const target = resolveCalloutTarget(ann, all);
+  const r = ann.targetRadius;
+  const x = Math.min(bounds.x, target.x - r);
+  const y = Math.min(bounds.y, target.y - r);
+  return {
+    x,
+    y,
+    width: Math.max(bounds.x + bounds.width, target.x + r) - x,
+    height: Math.max(bounds.y + bounds.height, target.y + r) - y,
+  };
+};
+
+// Grows `bounds` to give the model surrounding context, then keeps it on
+// the image with whole-pixel edges
+const padToCrop = (bounds: Rect, size: ImageSize): Rect => {
+  const pad = Math.max(bounds.width, bounds.height) * TILE_CONTEXT_RATIO;
+  const width = Math.min(size.width, Math.max(TILE_MIN_SIZE, bounds.width + pad * 2));
+  const height = Math.min(size.height, Math.max(TILE_MIN_SIZE, bounds.height + pad * 2));
+  const cx = bounds.x + bounds.width / 2;
+  const cy = bounds.y + bounds.height / 2;
+  const x = Math.round(Math.max(0, Math.min(size.width - width, cx - width / 2)));
+  const y = Math.round(Math.max(0, Math.min(size.height - height, cy - height / 2)));
+  return { x, y, width: Math.round(width), height: Math.round(height) };
+};
+
+const unionRect = (rects: Rect[]): Rect => {
+  const x = Math.min(...rects.map(r => r.x));
+  const y = Math.min(...rects.map(r => r.y));
+  return {
+    x,
+    y,
+    width: Math.max(...rects.map(r => r.x + r.width)) - x,
+    height: Math.max(...rects.map(r => r.y + r.height)) - y,
+  };
+};
+
+// Whether a callout in one group points at an annotation in the other. They
+// have to share a crop, or the callout would lose its target.
+const isLinked = (a: Annotation[], b: Annotation[]) =>
+  a.some(ann => ann.shape === 'callout' && !!findCalloutTarget(ann, b)) ||
+  b.some(ann => ann.shape === 'callout' && !!findCalloutTarget(ann, a));
+
+// One tile per annotation, merging any whose crops would overlap, or that a
+// callout links, so no pixel is edited twice. `annotations` are in
+// full-resolution pixels.
+export const planTiles = (annotations: Annotation[], size: ImageSize): Tile[] => {
+  let groups = annotations.map(ann => {
+    const bounds = getAffectedBounds(ann, annotations);
+    return { members: [ann], bounds, rect: padToCrop(bounds, size) };
+  });
+
+  for (let merged = true; merged;) {
+    merged = false;
+    for (let i = 0; i < groups.length && !merged; i++) {
+      for (let j = i + 1; j < groups.length && !merged; j++) {
+        if (!rectsIntersect(groups[i].rect, groups[j].rect) && !isLinked(groups[i].members, groups[j].members)) continue;
+        const bounds = unionRect([groups[i].bounds, groups[j].bounds]);
+        groups[i] = { members: [...groups[i].members, ...groups[j].members], bounds, rect: padToCrop(bounds, size) };
+        groups = groups.filter((_, k) => k !== j);
+        merged = true;
+      }
+    }
+  }
+
+  return groups.map(({ members, rect }) => ({
+    rect,
+    // Keep the editor's order so numbering stays familiar
+    annotations: annotations
+      .filter(a => members.includes(a))
+      .map(a => translateAnnotation(a, -rect.x, -rect.y)),
+  }));
+};
+
+// The crop as a PNG, shrunk if it is still larger than the model accepts,
+// with the tile's annotations scaled to match
+export const cropTile = (image: HTMLImageElement, tile: Tile): { imageSrc: string; annotations: Annotation[] } => {
+  const { rect } = tile;
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(rect.width, rect.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rect.width * scale);
+  canvas.height = Math.round(rect.height * scale);
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  return {
+    imageSrc: canvas.toDataURL('image/png'),
+    annotations: scale === 1 ? tile.annotations : tile.annotations.map(a => scaleAnnotation(a, scale, scale)),
+  };
+};
+
+// Opacity ramps from 0 at a crop edge to 1 `feather` pixels in. Edges on
+// the image border stay hard, since there is nothing to blend into there.
+const buildFeatherMask = (rect: Rect, size: ImageSize): HTMLCanvasElement => {
+  const feather = Math.max(1, Math.round(Math.min(rect.width, rect.height) * TILE_FEATHER_RATIO));
+  const ramp = (distance: number, isImageEdge: boolean) => isImageEdge ? 1 : Math.min(1, (distance + 0.5) / feather);
+  const alongX = Array.from({ length: rect.width }, (_, x) =>
+    Math.min(ramp(x, rect.x === 0), ramp(rect.width - 1 - x, rect.x + rect.width >= size.width)));
+  const alongY = Array.from({ length: rect.height }, (_, y) =>
+    Math.min(ramp(y, rect.y === 0), ramp(rect.height - 1 - y, rect.y + rect.height >= size.height)));
+
+  const mask = document.createElement('canvas');
+  mask.width = rect.width;
+  mask.height = rect.height;
+  const ctx = mask.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  const data = ctx.createImageData(rect.width, rect.height);
+  for (let y = 0, i = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++, i += 4) {
+      data.data[i] = data.data[i + 1] = data.data[i + 2] = 255;
+      data.data[i + 3] = Math.round(255 * Math.min(alongX[x], alongY[y]));
+    }
+  }
+  ctx.putImageData(data, 0, 0);
+  return mask;
+};
+
+// Scales each edited crop back to its place on the full-resolution image
+export const stitchTiles = async (
+  fullImageSrc: string,
+  patches: { rect: Rect; imageSrc: string }[],
+  mimeType: string = 'image/png'
+): Promise<string> => {
+  const full = await loadImage(fullImageSrc);
+  const size = { width: full.naturalWidth, height: full.naturalHeight };
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  ctx.drawImage(full, 0, 0);
+  for (const { rect, imageSrc } of patches) {
+    const edited = await loadImage(imageSrc);
+    const patch = document.createElement('canvas');
+    patch.width = rect.width;
+    patch.height = rect.height;
+    const patchCtx = patch.getContext('2d');
+
+    if (!patchCtx) throw new Error("Could not get canvas context");
+
+    // The model may answer at another aspect ratio than the crop it was
+    // sent. Stretching would shift everything off the original, so the
+    // middle of the answer at the crop's proportions is used instead.
+    const scale = Math.max(rect.width / edited.naturalWidth, rect.height / edited.naturalHeight);
+    const sw = rect.width / scale;
+    const sh = rect.height / scale;
+    patchCtx.imageSmoothingQuality = 'high';
+    patchCtx.drawImage(edited, (edited.naturalWidth - sw) / 2, (edited.naturalHeight - sh) / 2, sw, sh, 0, 0, rect.width, rect.height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(buildFeatherMask(rect, size), 0, 0);
+    ctx.drawImage(patch, rect.x, rect.y);
+  }
+
+  return canvas.toDataURL(mimeType);
+};
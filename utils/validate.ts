@@ -0,0 +1,107 @@
+// Checks for data read back from files and browser storage, which may be
+// old, hand-edited or corrupt. A problem throws a ValidationError naming the
+// offending field; callers reword it for their own format.
+import { Annotation, Point, ReferenceImage } from "../types";
+import { ANNOTATION_COLORS } from "../constants";
+
+export class ValidationError extends Error {
+  constructor(path: string, problem: string) {
+    super(`${path} ${problem}`);
+    this.name = 'ValidationError';
+  }
+}
+
+// A parsed JSON object whose fields are still to be checked
+export type Fields = Record<string, unknown>;
+
+export const fail = (path: string, problem: string): never => {
+  throw new ValidationError(path, problem);
+};
+
+export const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const expectObject = (value: unknown, path: string): Fields =>
+  isObject(value) ? value : fail(path, 'must be an object');
+
+export const expectArray = (value: unknown, path: string): unknown[] =>
+  Array.isArray(value) ? value : fail(path, 'must be an array');
+
+export const expectNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && isFinite(value) ? value : fail(path, 'must be a number');
+
+export const expectString = (value: unknown, path: string): string =>
+  typeof value === 'string' ? value : fail(path, 'must be a string');
+
+export const expectBoolean = (value: unknown, path: string): boolean =>
+  typeof value === 'boolean' ? value : fail(path, 'must be true or false');
+
+const expectPoint = (value: unknown, path: string): Point => {
+  const point = isObject(value) ? value : {};
+  return { x: expectNumber(point.x, `${path}.x`), y: expectNumber(point.y, `${path}.y`) };
+};
+
+const expectPoints = (value: unknown, path: string): Point[] => {
+  const points: unknown[] = Array.isArray(value) && value.length > 0 ? value : fail(path, 'must be a non-empty array of points');
+  return points.map((p, i) => expectPoint(p, `${path}[${i}]`));
+};
+
+export const validateReference = (raw: unknown, path: string): ReferenceImage => {
+  const ref = expectObject(raw, path);
+  return {
+    id: expectString(ref.id, `${path}.id`),
+    name: expectString(ref.name, `${path}.name`),
+    src: expectString(ref.src, `${path}.src`),
+  };
+};
+
+export const validateReferences = (raw: unknown, path: string): ReferenceImage[] =>
+  expectArray(raw, path).map((ref, i) => validateReference(ref, `${path}[${i}]`));
+
+// Builds the annotation from checked fields only, so nothing unverified
+// reaches the editor
+export const validateAnnotation = (raw: unknown, path: string): Annotation => {
+  const fields = expectObject(raw, path);
+  const base = {
+    id: expectString(fields.id, `${path}.id`),
+    text: expectString(fields.text, `${path}.text`),
+    color: ANNOTATION_COLORS.find(color => color === fields.color)
+      ?? fail(`${path}.color`, `must be one of ${ANNOTATION_COLORS.join(', ')}`),
+    ...(fields.disabled !== undefined && { disabled: expectBoolean(fields.disabled, `${path}.disabled`) }),
+    ...(fields.references !== undefined && { references: validateReferences(fields.references, `${path}.references`) }),
+  };
+  const rect = () => ({
+    x: expectNumber(fields.x, `${path}.x`),
+    y: expectNumber(fields.y, `${path}.y`),
+    width: expectNumber(fields.width, `${path}.width`),
+    height: expectNumber(fields.height, `${path}.height`),
+  });
+
+  // Annotations saved before shapes existed are plain rectangles
+  const shape = fields.shape ?? 'rect';
+  switch (shape) {
+    case 'rect':
+    case 'ellipse':
+      return { ...base, ...rect(), shape };
+    case 'callout':
+      return {
+        ...base,
+        ...rect(),
+        shape,
+        target: expectPoint(fields.target, `${path}.target`),
+        targetRadius: expectNumber(fields.targetRadius, `${path}.targetRadius`),
+        ...(fields.targetId !== undefined && { targetId: expectString(fields.targetId, `${path}.targetId`) }),
+      };
+    case 'polygon':
+      return { ...base, shape, points: expectPoints(fields.points, `${path}.points`) };
+    case 'brush':
+      return {
+        ...base,
+        shape,
+        points: expectPoints(fields.points, `${path}.points`),
+        brushSize: expectNumber(fields.brushSize, `${path}.brushSize`),
+      };
+    default:
+      return fail(`${path}.shape`, 'is not a known shape');
+  }
+};